@@ -1,5 +1,8 @@
 export type * from "./src/types";
+export { formatTokenAmount, parseTokenAmount } from "./src/amounts";
 export * from "./src/matcher";
+export { getNextRuleTransition, isRuleActiveAt } from "./src/schedule";
+export type { RuleTransition } from "./src/schedule";
 export * from "./src/token-registry";
 export * from "./src/validator";
 export * from "./src/rule-engine";
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "bun:test";
+import { formatTokenAmount, parseTokenAmount } from "./amounts";
+import { RuleEngine } from "./rule-engine";
+import type { FeeConfig, TokenInfo, TokenRegistry } from "./types";
+
+const USDC: TokenInfo = { assetId: "nep141:usdc", blockchain: "eth", symbol: "USDC", decimals: 6 };
+const WETH: TokenInfo = { assetId: "nep141:weth", blockchain: "eth", symbol: "WETH", decimals: 18 };
+const NO_DECIMALS: TokenInfo = { assetId: "nep141:points", blockchain: "near", symbol: "PTS", decimals: 0 };
+
+describe("parseTokenAmount", () => {
+  it("converts decimal strings to base units", () => {
+    expect(parseTokenAmount("1.5", USDC)).toBe("1500000");
+    expect(parseTokenAmount("0.000001", USDC)).toBe("1");
+    expect(parseTokenAmount("42", USDC)).toBe("42000000");
+    expect(parseTokenAmount("0", USDC)).toBe("0");
+    expect(parseTokenAmount("1234567.1", WETH)).toBe("1234567100000000000000000");
+    expect(parseTokenAmount("7", NO_DECIMALS)).toBe("7");
+  });
+
+  it("accepts trailing zeros within the token's decimals", () => {
+    expect(parseTokenAmount("1.500000", USDC)).toBe("1500000");
+  });
+
+  it("rejects more fractional digits than the token has", () => {
+    expect(() => parseTokenAmount("1.0000001", USDC)).toThrow('"1.0000001" has more than 6 decimal places');
+    expect(() => parseTokenAmount("1.0", NO_DECIMALS)).toThrow("has more than 0 decimal places");
+  });
+
+  it("rejects negatives, exponents and malformed strings", () => {
+    expect(() => parseTokenAmount("-1", USDC)).toThrow('"-1" must be non-negative');
+    expect(() => parseTokenAmount("1e6", USDC)).toThrow('"1e6" is not a decimal string');
+    for (const value of ["", " 1", "1,000", ".5", "1.", "+1", "0x10", "1.2.3"]) {
+      expect(() => parseTokenAmount(value, USDC)).toThrow("is not a decimal string");
+    }
+  });
+
+  it("rejects invalid decimals", () => {
+    expect(() => parseTokenAmount("1", { decimals: -1 })).toThrow("Invalid decimals: -1");
+    expect(() => parseTokenAmount("1", { decimals: 1.5 })).toThrow("Invalid decimals: 1.5");
+  });
+});
+
+describe("formatTokenAmount", () => {
+  it("converts base units to decimal strings", () => {
+    expect(formatTokenAmount("1500000", USDC)).toBe("1.5");
+    expect(formatTokenAmount(1n, USDC)).toBe("0.000001");
+    expect(formatTokenAmount("42000000", USDC)).toBe("42");
+    expect(formatTokenAmount("0", USDC)).toBe("0");
+    expect(formatTokenAmount("1234567100000000000000000", WETH)).toBe("1234567.1");
+    expect(formatTokenAmount("7", NO_DECIMALS)).toBe("7");
+  });
+
+  it("round-trips with parseTokenAmount", () => {
+    for (const value of ["0.1", "123.456789", "1000000", "0.000001"]) {
+      expect(formatTokenAmount(parseTokenAmount(value, USDC), USDC)).toBe(value);
+    }
+  });
+
+  it("rejects invalid amounts", () => {
+    expect(() => formatTokenAmount("1.5", USDC)).toThrow('Invalid amount: "1.5"');
+    expect(() => formatTokenAmount(-1n, USDC)).toThrow("must be non-negative");
+  });
+});
+
+describe("RuleEngine amount helpers", () => {
+  const config: FeeConfig = {
+    version: "1.0.0",
+    default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+    rules: [],
+  };
+  const registry: TokenRegistry = {
+    getToken: (assetId) => [USDC, WETH].find((t) => t.assetId === assetId),
+    isFresh: () => true,
+    ensureFresh: async () => {},
+    size: 2,
+  };
+  const engine = new RuleEngine(config, { tokenRegistry: registry });
+
+  it("looks up the decimals by assetId", () => {
+    expect(engine.parseTokenAmount("1.5", USDC.assetId)).toBe("1500000");
+    expect(engine.parseTokenAmount("1.5", WETH.assetId)).toBe("1500000000000000000");
+    expect(engine.formatTokenAmount("1500000", USDC.assetId)).toBe("1.5");
+  });
+
+  it("throws for unknown assets", () => {
+    expect(() => engine.parseTokenAmount("1", "unknown-asset")).toThrow('Unknown asset "unknown-asset"');
+    expect(() => engine.formatTokenAmount("1", "unknown-asset")).toThrow('Unknown asset "unknown-asset"');
+  });
+});
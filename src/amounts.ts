@@ -0,0 +1,56 @@
+import type { TokenInfo } from "./types";
+
+const DECIMAL_REGEX = /^(\d+)(?:\.(\d+))?$/;
+
+function getScale(token: Pick<TokenInfo, "decimals">): bigint {
+  const { decimals } = token;
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(`Invalid decimals: ${decimals} must be a non-negative integer`);
+  }
+  return 10n ** BigInt(decimals);
+}
+
+/**
+ * Converts a decimal string in whole tokens (e.g. `"1.5"`) to base units using the
+ * token's `decimals` (`"1500000"` for 6 decimals). Accepts only plain non-negative
+ * decimals: no signs, exponents, separators or whitespace, and no more fractional
+ * digits than the token has decimals.
+ */
+export function parseTokenAmount(value: string, token: Pick<TokenInfo, "decimals">): string {
+  const scale = getScale(token);
+  if (typeof value !== "string") {
+    throw new Error(`Invalid token amount: expected string, got ${typeof value}`);
+  }
+  if (value.startsWith("-")) {
+    throw new Error(`Invalid token amount: "${value}" must be non-negative`);
+  }
+  const match = DECIMAL_REGEX.exec(value);
+  if (!match) {
+    throw new Error(`Invalid token amount: "${value}" is not a decimal string`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > token.decimals) {
+    throw new Error(`Invalid token amount: "${value}" has more than ${token.decimals} decimal places`);
+  }
+  return (BigInt(whole!) * scale + BigInt(fraction.padEnd(token.decimals, "0") || "0")).toString();
+}
+
+/**
+ * Converts base units to a decimal string in whole tokens using the token's `decimals`,
+ * e.g. `"1500000"` with 6 decimals to `"1.5"`. Trailing fractional zeros are dropped.
+ */
+export function formatTokenAmount(amount: string | bigint, token: Pick<TokenInfo, "decimals">): string {
+  const scale = getScale(token);
+  if (typeof amount === "string" && !/^\d+$/.test(amount)) {
+    throw new Error(`Invalid amount: "${amount}" is not a valid non-negative integer string`);
+  }
+  const units = BigInt(amount);
+  if (units < 0n) {
+    throw new Error(`Invalid amount: "${amount}" must be non-negative`);
+  }
+
+  const whole = (units / scale).toString();
+  const fraction = (units % scale).toString().padStart(token.decimals, "0").replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
@@ -0,0 +1,91 @@
+import type { Fee, FeeTier, RoundingMode, TieredFee } from "./types";
+
+export const ROUNDING_MODES: readonly RoundingMode[] = ["floor", "ceil", "half-up", "half-even"];
+
+/** Divides non-negative `numerator` by positive `divisor`, rounding the quotient with `mode`. */
+export function divideRounded(numerator: bigint, divisor: bigint, mode: RoundingMode = "floor"): bigint {
+  const quotient = numerator / divisor;
+  const remainder = numerator % divisor;
+  if (remainder === 0n) return quotient;
+
+  switch (mode) {
+    case "floor":
+      return quotient;
+    case "ceil":
+      return quotient + 1n;
+    case "half-up":
+      return remainder * 2n >= divisor ? quotient + 1n : quotient;
+    case "half-even": {
+      const twice = remainder * 2n;
+      if (twice === divisor) return quotient % 2n === 0n ? quotient : quotient + 1n;
+      return twice > divisor ? quotient + 1n : quotient;
+    }
+    default:
+      throw new Error(`Invalid rounding mode "${mode}": expected one of ${ROUNDING_MODES.join(", ")}`);
+  }
+}
+
+/** Returns the tier whose range contains `amount`. Tiers cover `(previous up_to, up_to]`. */
+function findTier(tiers: FeeTier[], amount: bigint): FeeTier {
+  for (const tier of tiers) {
+    if (tier.up_to === undefined || amount <= BigInt(tier.up_to)) return tier;
+  }
+  return tiers[tiers.length - 1]!;
+}
+
+/** Sum of `portion * bps` over the tiers, where each portion is the part of `amount` in that tier. */
+function marginalNumerator(tiers: FeeTier[], amount: bigint): bigint {
+  let numerator = 0n;
+  let lower = 0n;
+  for (const tier of tiers) {
+    if (amount <= lower) break;
+    const upper = tier.up_to === undefined ? amount : BigInt(tier.up_to);
+    const portion = (amount < upper ? amount : upper) - lower;
+    numerator += portion * BigInt(tier.bps);
+    lower = upper;
+  }
+  return numerator;
+}
+
+/**
+ * Fee for `amount` under a tiered fee, before caps and rounding, scaled by 10000 (the
+ * sum of `amount * bps` over the charged parts). `flat` applies the bps of the tier
+ * containing the whole amount; `marginal` applies each tier's bps to the part of the
+ * amount that falls inside it.
+ */
+export function getTieredFeeNumerator(fee: TieredFee, amount: bigint): bigint {
+  if (fee.method === "marginal") {
+    return marginalNumerator(fee.tiers, amount);
+  }
+  return amount * BigInt(findTier(fee.tiers, amount).bps);
+}
+
+function getEntryBps(fee: Fee, amount: bigint | undefined): number | undefined {
+  switch (fee.type) {
+    case "bps":
+      return fee.bps;
+    case "tiered":
+      if (amount === undefined) return undefined;
+      if (fee.method === "marginal" && amount > 0n) {
+        return Number(marginalNumerator(fee.tiers, amount)) / Number(amount);
+      }
+      return findTier(fee.tiers, amount).bps;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Total bps of a fee, using the effective rate of tiered fees for `amount` (which may
+ * be fractional for marginal tiers). Returns undefined if the fee has a fixed entry,
+ * or a tiered entry and no amount. Caps are not taken into account.
+ */
+export function getEffectiveBps(fee: Fee | Fee[], amount?: bigint): number | undefined {
+  let total = 0;
+  for (const entry of Array.isArray(fee) ? fee : [fee]) {
+    const bps = getEntryBps(entry, amount);
+    if (bps === undefined) return undefined;
+    total += bps;
+  }
+  return total;
+}
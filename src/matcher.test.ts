@@ -1,13 +1,11 @@
 import { describe, it, expect } from "bun:test";
 import { RuleMatcher } from "./matcher";
-import type { Fee, FeeConfig, TokenInfo, TokenRegistry } from "./types";
+import { getTotalBps } from "./rule-engine";
+import type { BpsFee, Fee, FeeConfig, TokenInfo, TokenMatcher, TokenRegistry } from "./types";
 
 // Helper to get bps from fee (handles both single Fee and Fee[])
 function getBps(fee: Fee | Fee[]): number {
-  if (Array.isArray(fee)) {
-    return fee.reduce((sum, f) => sum + f.bps, 0);
-  }
-  return fee.bps;
+  return getTotalBps(fee);
 }
 
 // Mock token registry for tests
@@ -53,6 +51,8 @@ const TOKENS: TokenInfo[] = [
     decimals: 6,
   },
 ];
+const USDC_ETH = TOKENS[0]!.assetId;
+const USDC_BASE = TOKENS[1]!.assetId;
 
 const registry = createMockRegistry(TOKENS);
 
@@ -1006,7 +1006,7 @@ describe("RuleMatcher", () => {
       expect(Array.isArray(result.fee)).toBe(true);
       expect(getBps(result.fee)).toBe(10);
 
-      const fees = result.fee as Fee[];
+      const fees = result.fee as BpsFee[];
       expect(fees).toHaveLength(2);
       expect(fees[0]?.bps).toBe(7);
       expect(fees[0]?.recipient).toBe("fees.near");
@@ -1034,7 +1034,7 @@ describe("RuleMatcher", () => {
       expect(Array.isArray(result.fee)).toBe(true);
       expect(getBps(result.fee)).toBe(20);
 
-      const fees = result.fee as Fee[];
+      const fees = result.fee as BpsFee[];
       expect(fees).toHaveLength(2);
       expect(fees[0]?.recipient).toBe("fees.near");
       expect(fees[1]?.recipient).toBe("treasury.near");
@@ -1373,4 +1373,1507 @@ describe("RuleMatcher", () => {
     });
   });
 
+  describe("amount ranges", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "large-usdc",
+          enabled: true,
+          priority: 200,
+          match: {
+            in: { symbol: "USDC", min: "1000000" },
+            out: { symbol: "USDC" },
+          },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "small-usdc",
+          enabled: true,
+          priority: 150,
+          match: {
+            in: { symbol: "USDC", max: "999999" },
+            out: { symbol: "USDC" },
+          },
+          fee: { type: "bps", bps: 15, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const request = {
+      originAsset: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+      destinationAsset: "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near",
+    };
+
+    it("matches when amount is at or above min", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(matcher.match({ ...request, amount: "1000000" }).rule?.id).toBe("large-usdc");
+      expect(matcher.match({ ...request, amount: "5000000000" }).rule?.id).toBe("large-usdc");
+    });
+
+    it("matches when amount is at or below max", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(matcher.match({ ...request, amount: "999999" }).rule?.id).toBe("small-usdc");
+      expect(matcher.match({ ...request, amount: "0" }).rule?.id).toBe("small-usdc");
+    });
+
+    it("does not match bounded rules when request has no amount", () => {
+      const matcher = new RuleMatcher(config, registry);
+      const result = matcher.match(request);
+
+      expect(result.matched).toBe(false);
+      expect(getBps(result.fee)).toBe(20);
+    });
+
+    it("compares amounts beyond Number.MAX_SAFE_INTEGER exactly", () => {
+      const bigConfig: FeeConfig = {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        rules: [
+          {
+            id: "whale",
+            enabled: true,
+            match: {
+              in: { symbol: "USDC", min: "100000000000000000001" },
+              out: { symbol: "USDC" },
+            },
+            fee: { type: "bps", bps: 1, recipient: "fees.near" },
+          },
+        ],
+      };
+
+      const matcher = new RuleMatcher(bigConfig, registry);
+
+      expect(matcher.match({ ...request, amount: "100000000000000000000" }).matched).toBe(false);
+      expect(matcher.match({ ...request, amount: "100000000000000000001" }).matched).toBe(true);
+    });
+
+    it("applies bounds on the out side to the request amount", () => {
+      const outConfig: FeeConfig = {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        rules: [
+          {
+            id: "bounded-out",
+            enabled: true,
+            match: {
+              in: { symbol: "USDC" },
+              out: { symbol: "USDC", min: "100", max: "200" },
+            },
+            fee: { type: "bps", bps: 7, recipient: "fees.near" },
+          },
+        ],
+      };
+
+      const matcher = new RuleMatcher(outConfig, registry);
+
+      expect(matcher.match({ ...request, amount: "150" }).matched).toBe(true);
+      expect(matcher.match({ ...request, amount: "201" }).matched).toBe(false);
+    });
+
+    it("reports amount in matchedBy", () => {
+      const matcher = new RuleMatcher(config, registry);
+      const result = matcher.match({ ...request, amount: "1000000" });
+
+      expect(result.matchDetails?.in?.matchedBy).toEqual({ symbol: true, amount: true });
+      expect(result.matchDetails?.out?.matchedBy).toEqual({ symbol: true });
+    });
+
+    it("throws on an invalid request amount", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(() => matcher.match({ ...request, amount: "1.5" })).toThrow("Invalid amount");
+    });
+
+    it("ignores an invalid amount when no rule has bounds or the tokens are unknown", () => {
+      const unbounded = new RuleMatcher({ ...config, rules: [] }, registry);
+      expect(unbounded.match({ ...request, amount: "" }).fee).toEqual(config.default_fee);
+
+      const matcher = new RuleMatcher(config, registry);
+      expect(matcher.match({ originAsset: "unknown", destinationAsset: "other", amount: "1.5" })).toEqual({
+        matched: false,
+        fee: config.default_fee,
+      });
+    });
+  });
+
+  describe("USD value ranges", () => {
+    const recentUpdate = () => new Date(Date.now() - 60000).toISOString();
+
+    function createPricedRegistry(priceUpdatedAt: string | undefined): TokenRegistry {
+      return createMockRegistry([
+        { ...TOKENS[0]!, price: 1, priceUpdatedAt },
+        { ...TOKENS[1]!, price: 1, priceUpdatedAt },
+        { ...TOKENS[2]!, price: 100000, priceUpdatedAt },
+      ]);
+    }
+
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "over-10k-usd",
+          enabled: true,
+          match: {
+            in: { blockchain: "*", minUsd: 10000 },
+            out: { blockchain: "*" },
+          },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const usdcToBase = {
+      originAsset: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+      destinationAsset: "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near",
+    };
+
+    it("matches when USD value is at or above minUsd", () => {
+      const matcher = new RuleMatcher(config, createPricedRegistry(recentUpdate()));
+
+      // 10,000 USDC (6 decimals) at $1
+      expect(matcher.match({ ...usdcToBase, amount: "10000000000" }).matched).toBe(true);
+      expect(matcher.match({ ...usdcToBase, amount: "9999999999" }).matched).toBe(false);
+    });
+
+    it("uses token decimals and price to compute the value", () => {
+      const matcher = new RuleMatcher(config, createPricedRegistry(recentUpdate()));
+
+      // 0.1 WBTC (8 decimals) at $100,000 = $10,000
+      const result = matcher.match({
+        originAsset: "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near",
+        destinationAsset: usdcToBase.originAsset,
+        amount: "10000000",
+      });
+
+      expect(result.matched).toBe(true);
+      expect(result.matchDetails?.in?.matchedBy).toEqual({ blockchain: true, usd: true });
+    });
+
+    it("respects maxUsd", () => {
+      const maxConfig: FeeConfig = {
+        ...config,
+        rules: [
+          {
+            id: "under-100-usd",
+            enabled: true,
+            match: {
+              in: { symbol: "USDC", maxUsd: 100 },
+              out: { symbol: "USDC" },
+            },
+            fee: { type: "bps", bps: 30, recipient: "fees.near" },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(maxConfig, createPricedRegistry(recentUpdate()));
+
+      expect(matcher.match({ ...usdcToBase, amount: "100000000" }).matched).toBe(true);
+      expect(matcher.match({ ...usdcToBase, amount: "100000001" }).matched).toBe(false);
+    });
+
+    it("does not match when the origin token has no price", () => {
+      const unpriced = createMockRegistry([{ ...TOKENS[0]!, priceUpdatedAt: recentUpdate() }, TOKENS[1]!]);
+      const matcher = new RuleMatcher(config, unpriced);
+
+      expect(matcher.match({ ...usdcToBase, amount: "10000000000" }).matched).toBe(false);
+    });
+
+    it("does not match when the request has no amount", () => {
+      const matcher = new RuleMatcher(config, createPricedRegistry(recentUpdate()));
+
+      expect(matcher.match(usdcToBase).matched).toBe(false);
+    });
+
+    it("does not match when the price is stale", () => {
+      const threeHoursAgo = new Date(Date.now() - 3 * 3600000).toISOString();
+      const matcher = new RuleMatcher(config, createPricedRegistry(threeHoursAgo));
+
+      expect(matcher.match({ ...usdcToBase, amount: "10000000000" }).matched).toBe(false);
+    });
+
+    it("does not match when priceUpdatedAt is missing", () => {
+      const matcher = new RuleMatcher(config, createPricedRegistry(undefined));
+
+      expect(matcher.match({ ...usdcToBase, amount: "10000000000" }).matched).toBe(false);
+    });
+
+    it("accepts older prices with a larger maxPriceAgeMs", () => {
+      const threeHoursAgo = new Date(Date.now() - 3 * 3600000).toISOString();
+      const matcher = new RuleMatcher(config, createPricedRegistry(threeHoursAgo), {
+        maxPriceAgeMs: 4 * 3600000,
+      });
+
+      expect(matcher.match({ ...usdcToBase, amount: "10000000000" }).matched).toBe(true);
+    });
+  });
+
+  describe("glob and regex patterns", () => {
+    function matchWith(inMatcher: TokenMatcher, outMatcher: TokenMatcher, originAsset: string, destinationAsset: string) {
+      const config: FeeConfig = {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        rules: [
+          {
+            id: "pattern-rule",
+            enabled: true,
+            match: { in: inMatcher, out: outMatcher },
+            fee: { type: "bps", bps: 5, recipient: "fees.near" },
+          },
+        ],
+      };
+      return new RuleMatcher(config, registry).match({ originAsset, destinationAsset });
+    }
+
+    const ETH_USDC = "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near";
+    const ETH_WBTC = "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near";
+    const BASE_USDC = "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near";
+
+    it("matches assetId globs with *", () => {
+      expect(matchWith({ assetId: "nep141:eth-*" }, { symbol: "*" }, ETH_USDC, BASE_USDC).matched).toBe(true);
+      expect(matchWith({ assetId: "nep141:eth-*" }, { symbol: "*" }, BASE_USDC, ETH_USDC).matched).toBe(false);
+    });
+
+    it("matches symbol globs with prefix", () => {
+      expect(matchWith({ symbol: "W*" }, { symbol: "*" }, ETH_WBTC, ETH_USDC).matched).toBe(true);
+      expect(matchWith({ symbol: "W*" }, { symbol: "*" }, ETH_USDC, ETH_WBTC).matched).toBe(false);
+    });
+
+    it("matches single characters with ?", () => {
+      expect(matchWith({ symbol: "USD?" }, { blockchain: "*" }, ETH_USDC, ETH_WBTC).matched).toBe(true);
+      expect(matchWith({ symbol: "US?" }, { blockchain: "*" }, ETH_USDC, ETH_WBTC).matched).toBe(false);
+    });
+
+    it("treats regex metacharacters in globs literally", () => {
+      expect(matchWith({ assetId: "nep141:eth-0x*.omft.near" }, { symbol: "*" }, ETH_USDC, BASE_USDC).matched).toBe(true);
+      expect(matchWith({ assetId: "nep141:eth-0x*Xomft.near" }, { symbol: "*" }, ETH_USDC, BASE_USDC).matched).toBe(false);
+    });
+
+    it("matches regular expressions", () => {
+      expect(matchWith({ symbol: "/^USD[CT]$/" }, { symbol: "*" }, ETH_USDC, ETH_WBTC).matched).toBe(true);
+      expect(matchWith({ symbol: "/^USD[CT]$/" }, { symbol: "*" }, ETH_WBTC, ETH_USDC).matched).toBe(false);
+    });
+
+    it("supports regex flags", () => {
+      expect(matchWith({ symbol: "/^usdc$/i" }, { symbol: "*" }, ETH_USDC, ETH_WBTC).matched).toBe(true);
+    });
+
+    it("negates globs and regular expressions", () => {
+      expect(matchWith({ symbol: "!W*" }, { symbol: "*" }, ETH_USDC, ETH_WBTC).matched).toBe(true);
+      expect(matchWith({ symbol: "!W*" }, { symbol: "*" }, ETH_WBTC, ETH_USDC).matched).toBe(false);
+      expect(matchWith({ symbol: "!/^USD/" }, { symbol: "*" }, ETH_USDC, ETH_WBTC).matched).toBe(false);
+      expect(matchWith({ symbol: "!/^USD/" }, { symbol: "*" }, ETH_WBTC, ETH_USDC).matched).toBe(true);
+    });
+
+    it("combines patterns in arrays with OR logic", () => {
+      expect(matchWith({ blockchain: ["ba*", "/^arb$/"] }, { symbol: "*" }, BASE_USDC, ETH_USDC).matched).toBe(true);
+      expect(matchWith({ blockchain: ["ba*", "/^arb$/"] }, { symbol: "*" }, ETH_USDC, BASE_USDC).matched).toBe(false);
+    });
+  });
+
+  describe("exclusion lists", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "not-eth-or-base",
+          enabled: true,
+          match: {
+            in: { blockchain: "*", exclude: { blockchain: ["eth", "base"] } },
+            out: { blockchain: "*" },
+          },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    it("rejects tokens matching any excluded value", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(
+        matcher.match({
+          originAsset: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+          destinationAsset: "nep141:arb-0xaf88d065e77c8cc2239327c5edb3a432268e5831.omft.near",
+        }).matched
+      ).toBe(false);
+      expect(
+        matcher.match({
+          originAsset: "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near",
+          destinationAsset: "nep141:arb-0xaf88d065e77c8cc2239327c5edb3a432268e5831.omft.near",
+        }).matched
+      ).toBe(false);
+    });
+
+    it("matches tokens not in the exclusion list", () => {
+      const matcher = new RuleMatcher(config, registry);
+      const result = matcher.match({
+        originAsset: "nep141:arb-0xaf88d065e77c8cc2239327c5edb3a432268e5831.omft.near",
+        destinationAsset: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+      });
+
+      expect(result.matched).toBe(true);
+      expect(result.matchDetails?.in?.matchedBy).toEqual({ blockchain: true, exclude: true });
+    });
+
+    it("excludes by any listed field", () => {
+      const mixedConfig: FeeConfig = {
+        ...config,
+        rules: [
+          {
+            id: "usdc-except-sol-and-base-asset",
+            enabled: true,
+            match: {
+              in: {
+                symbol: "USDC",
+                exclude: {
+                  blockchain: "sol",
+                  assetId: "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near",
+                },
+              },
+              out: { symbol: "*" },
+            },
+            fee: { type: "bps", bps: 5, recipient: "fees.near" },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(mixedConfig, registry);
+      const destinationAsset = "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near";
+
+      expect(matcher.match({ originAsset: "nep141:sol-5ce3bf3a31af18be40ba30f721101b4341690186.omft.near", destinationAsset }).matched).toBe(false);
+      expect(matcher.match({ originAsset: "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near", destinationAsset }).matched).toBe(false);
+      expect(matcher.match({ originAsset: "nep141:arb-0xaf88d065e77c8cc2239327c5edb3a432268e5831.omft.near", destinationAsset }).matched).toBe(true);
+    });
+
+    it("works without positive identifiers", () => {
+      const excludeOnly: FeeConfig = {
+        ...config,
+        rules: [
+          {
+            id: "exclude-only",
+            enabled: true,
+            match: {
+              in: { exclude: { symbol: "W*" } },
+              out: { exclude: { blockchain: "sol" } },
+            },
+            fee: { type: "bps", bps: 5, recipient: "fees.near" },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(excludeOnly, registry);
+
+      expect(
+        matcher.match({
+          originAsset: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+          destinationAsset: "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near",
+        }).matched
+      ).toBe(true);
+      expect(
+        matcher.match({
+          originAsset: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+          destinationAsset: "nep141:sol-5ce3bf3a31af18be40ba30f721101b4341690186.omft.near",
+        }).matched
+      ).toBe(false);
+    });
+  });
+
+  describe("composite match expressions", () => {
+    const ETH_USDC = "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near";
+    const BASE_USDC = "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near";
+    const ETH_WBTC = "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near";
+    const ARB_USDC = "nep141:arb-0xaf88d065e77c8cc2239327c5edb3a432268e5831.omft.near";
+    const SOL_USDC = "nep141:sol-5ce3bf3a31af18be40ba30f721101b4341690186.omft.near";
+
+    // (USDC on eth OR USDC on arb) to anything NOT on sol
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "composite",
+          enabled: true,
+          match: {
+            any: [
+              { in: { symbol: "USDC", blockchain: "eth" } },
+              { in: { symbol: "USDC", blockchain: "arb" } },
+            ],
+            not: { out: { blockchain: "sol" } },
+          },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    it("matches when an any-branch matches and the not-branch does not", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ARB_USDC, destinationAsset: ETH_WBTC }).matched).toBe(true);
+    });
+
+    it("does not match when no any-branch matches", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(matcher.match({ originAsset: BASE_USDC, destinationAsset: ETH_USDC }).matched).toBe(false);
+      expect(matcher.match({ originAsset: ETH_WBTC, destinationAsset: ETH_USDC }).matched).toBe(false);
+    });
+
+    it("does not match when the not-branch matches", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: SOL_USDC }).matched).toBe(false);
+    });
+
+    it("requires every all-branch to match", () => {
+      const allConfig: FeeConfig = {
+        ...config,
+        rules: [
+          {
+            id: "all",
+            enabled: true,
+            match: {
+              all: [{ in: { symbol: "USDC" } }, { in: { blockchain: "eth" } }, { out: { symbol: "WBTC" } }],
+            },
+            fee: { type: "bps", bps: 5, recipient: "fees.near" },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(allConfig, registry);
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: ETH_WBTC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: BASE_USDC, destinationAsset: ETH_WBTC }).matched).toBe(false);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(false);
+    });
+
+    it("combines top-level in/out with composite keys", () => {
+      const mixedConfig: FeeConfig = {
+        ...config,
+        rules: [
+          {
+            id: "mixed",
+            enabled: true,
+            match: {
+              in: { symbol: "USDC" },
+              out: { symbol: "USDC" },
+              not: { any: [{ in: { blockchain: "sol" } }, { out: { blockchain: "sol" } }] },
+            },
+            fee: { type: "bps", bps: 5, recipient: "fees.near" },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(mixedConfig, registry);
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: SOL_USDC, destinationAsset: BASE_USDC }).matched).toBe(false);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: SOL_USDC }).matched).toBe(false);
+    });
+
+    it("reports which branch matched", () => {
+      const branchConfig: FeeConfig = {
+        ...config,
+        rules: [
+          {
+            id: "branches",
+            enabled: true,
+            match: {
+              any: [
+                { in: { blockchain: "eth" }, out: { blockchain: "eth" } },
+                { in: { blockchain: "arb" }, out: { symbol: "*" } },
+              ],
+            },
+            fee: { type: "bps", bps: 5, recipient: "fees.near" },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(branchConfig, registry);
+      const result = matcher.match({ originAsset: ARB_USDC, destinationAsset: BASE_USDC });
+
+      expect(result.matched).toBe(true);
+      expect(result.matchDetails?.in?.branch).toBe("any[1].in");
+      expect(result.matchDetails?.in?.matchedBy).toEqual({ blockchain: true });
+      expect(result.matchDetails?.out?.branch).toBe("any[1].out");
+    });
+
+    it("reports top-level branches for plain in/out rules", () => {
+      const plain = new RuleMatcher(
+        {
+          ...config,
+          rules: [
+            {
+              id: "plain",
+              enabled: true,
+              match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+              fee: { type: "bps", bps: 5, recipient: "fees.near" },
+            },
+          ],
+        },
+        registry
+      );
+      const result = plain.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC });
+
+      expect(result.matchDetails?.in?.branch).toBe("in");
+      expect(result.matchDetails?.out?.branch).toBe("out");
+    });
+  });
+
+  describe("route predicates", () => {
+    const ETH_USDC = "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near";
+    const BASE_USDC = "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near";
+    const ETH_WBTC = "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near";
+
+    function routeMatcher(match: FeeConfig["rules"][number]["match"]) {
+      return new RuleMatcher(
+        {
+          version: "1.0.0",
+          default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+          rules: [{ id: "route", enabled: true, match, fee: { type: "bps", bps: 5, recipient: "fees.near" } }],
+        },
+        registry
+      );
+    }
+
+    it("matches same-chain swaps", () => {
+      const matcher = routeMatcher({ route: { sameBlockchain: true } });
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: ETH_WBTC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(false);
+    });
+
+    it("matches cross-chain swaps of the same symbol", () => {
+      const matcher = routeMatcher({ route: { sameSymbol: true, crossChain: true } });
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: ETH_WBTC }).matched).toBe(false);
+    });
+
+    it("matches predicates set to false", () => {
+      const matcher = routeMatcher({ route: { sameSymbol: false } });
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: ETH_WBTC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(false);
+    });
+
+    it("matches same-asset swaps", () => {
+      const matcher = routeMatcher({ route: { sameAsset: true } });
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: ETH_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(false);
+    });
+
+    it("combines route predicates with token matchers", () => {
+      const matcher = routeMatcher({
+        in: { symbol: "USDC" },
+        out: { symbol: "USDC" },
+        route: { crossChain: true },
+      });
+      const result = matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC });
+
+      expect(result.matched).toBe(true);
+      expect(result.matchDetails?.in?.matchedBy).toEqual({ symbol: true });
+      expect(result.matchDetails?.route).toEqual({ branch: "route", matchedBy: { crossChain: true } });
+    });
+
+    it("reports nested route predicates", () => {
+      const matcher = routeMatcher({
+        any: [{ route: { sameBlockchain: true } }, { route: { sameSymbol: true } }],
+      });
+      const result = matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC });
+
+      expect(result.matched).toBe(true);
+      expect(result.matchDetails?.route).toEqual({ branch: "any[1].route", matchedBy: { sameSymbol: true } });
+    });
+  });
+
+  describe("bidirectional rules", () => {
+    const ETH_USDC = "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near";
+    const BASE_USDC = "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near";
+    const ARB_USDC = "nep141:arb-0xaf88d065e77c8cc2239327c5edb3a432268e5831.omft.near";
+
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "eth-base",
+          enabled: true,
+          bidirectional: true,
+          match: {
+            in: { blockchain: "eth" },
+            out: { blockchain: "base" },
+          },
+          fee: { type: "bps", bps: 8, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    it("matches the forward orientation", () => {
+      const matcher = new RuleMatcher(config, registry);
+      const result = matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC });
+
+      expect(result.matched).toBe(true);
+      expect(result.matchDetails?.direction).toBe("forward");
+      expect(result.matchDetails?.in?.token.blockchain).toBe("eth");
+    });
+
+    it("matches the reverse orientation", () => {
+      const matcher = new RuleMatcher(config, registry);
+      const result = matcher.match({ originAsset: BASE_USDC, destinationAsset: ETH_USDC });
+
+      expect(result.matched).toBe(true);
+      expect(getBps(result.fee)).toBe(8);
+      expect(result.matchDetails?.direction).toBe("reverse");
+      expect(result.matchDetails?.in?.token.blockchain).toBe("eth");
+      expect(result.matchDetails?.out?.token.blockchain).toBe("base");
+      expect(result.matchDetails?.originToken.blockchain).toBe("base");
+    });
+
+    it("does not match unrelated routes", () => {
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(matcher.match({ originAsset: ARB_USDC, destinationAsset: ETH_USDC }).matched).toBe(false);
+    });
+
+    it("only matches forward when bidirectional is not set", () => {
+      const forwardOnly: FeeConfig = {
+        ...config,
+        rules: [{ ...config.rules[0]!, bidirectional: false }],
+      };
+      const matcher = new RuleMatcher(forwardOnly, registry);
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: BASE_USDC, destinationAsset: ETH_USDC }).matched).toBe(false);
+    });
+
+    it("keeps amount bounds tied to the request amount in reverse", () => {
+      const bounded: FeeConfig = {
+        ...config,
+        rules: [
+          {
+            ...config.rules[0]!,
+            match: { in: { blockchain: "eth", min: "1000" }, out: { blockchain: "base" } },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(bounded, registry);
+
+      expect(matcher.match({ originAsset: BASE_USDC, destinationAsset: ETH_USDC, amount: "1000" }).matched).toBe(true);
+      expect(matcher.match({ originAsset: BASE_USDC, destinationAsset: ETH_USDC, amount: "999" }).matched).toBe(false);
+    });
+  });
+
+  describe("named sets", () => {
+    const ETH_USDC = "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near";
+    const BASE_USDC = "nep141:base-0x833589fcd6edb6e08f4c7c32d4f71b54bda02913.omft.near";
+    const ETH_WBTC = "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near";
+    const ARB_USDC = "nep141:arb-0xaf88d065e77c8cc2239327c5edb3a432268e5831.omft.near";
+    const SOL_USDC = "nep141:sol-5ce3bf3a31af18be40ba30f721101b4341690186.omft.near";
+
+    function setMatcher(match: FeeConfig["rules"][number]["match"]) {
+      return new RuleMatcher(
+        {
+          version: "1.0.0",
+          default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+          sets: {
+            stablecoins: ["USDC", "USDT", "DAI"],
+            l2s: ["arb", "polygon", "base", "op"],
+            evm: ["eth", "@l2s"],
+          },
+          rules: [{ id: "sets", enabled: true, match, fee: { type: "bps", bps: 5, recipient: "fees.near" } }],
+        },
+        registry
+      );
+    }
+
+    it("matches values in a referenced set", () => {
+      const matcher = setMatcher({ in: { symbol: "@stablecoins" }, out: { symbol: "@stablecoins" } });
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ETH_WBTC, destinationAsset: BASE_USDC }).matched).toBe(false);
+    });
+
+    it("matches negated set references as none of the members", () => {
+      const matcher = setMatcher({ in: { blockchain: "!@l2s" }, out: { blockchain: "*" } });
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: BASE_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: SOL_USDC, destinationAsset: BASE_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: BASE_USDC, destinationAsset: ETH_USDC }).matched).toBe(false);
+      expect(matcher.match({ originAsset: ARB_USDC, destinationAsset: ETH_USDC }).matched).toBe(false);
+    });
+
+    it("expands sets that reference other sets", () => {
+      const matcher = setMatcher({ in: { blockchain: "@evm" }, out: { blockchain: "@evm" } });
+
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: ARB_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: SOL_USDC }).matched).toBe(false);
+    });
+
+    it("mixes set references with plain values and exclusions", () => {
+      const matcher = setMatcher({
+        in: { blockchain: ["@l2s", "sol"] },
+        out: { blockchain: "*", exclude: { blockchain: "@l2s" } },
+      });
+
+      expect(matcher.match({ originAsset: SOL_USDC, destinationAsset: ETH_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ARB_USDC, destinationAsset: ETH_USDC }).matched).toBe(true);
+      expect(matcher.match({ originAsset: ARB_USDC, destinationAsset: BASE_USDC }).matched).toBe(false);
+      expect(matcher.match({ originAsset: ETH_USDC, destinationAsset: SOL_USDC }).matched).toBe(false);
+    });
+
+    it("throws on circular sets when constructed without validation", () => {
+      const config: FeeConfig = {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        sets: { a: ["@b"], b: ["@a"] },
+        rules: [],
+      };
+
+      expect(() => new RuleMatcher(config, registry)).toThrow("Circular set reference");
+    });
+  });
+
+  describe("evaluation time", () => {
+    // 2025-06-06 is a Friday
+    const FRIDAY_NOON_UTC = Date.UTC(2025, 5, 6, 12, 0);
+    const SATURDAY_NOON_UTC = Date.UTC(2025, 5, 7, 12, 0);
+
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "june-weekends",
+          enabled: true,
+          valid_from: "2025-06-01T00:00:00Z",
+          valid_until: "2025-06-30T23:59:59Z",
+          schedule: { active: [{ days: ["sat", "sun"] }] },
+          match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    it("evaluates rules at the injected clock's time", () => {
+      let now = FRIDAY_NOON_UTC;
+      const matcher = new RuleMatcher(config, registry, { clock: () => now });
+      const request = { originAsset: USDC_ETH, destinationAsset: USDC_BASE };
+
+      expect(matcher.match(request).matched).toBe(false);
+
+      now = SATURDAY_NOON_UTC;
+      const result = matcher.match(request);
+      expect(result.matched).toBe(true);
+      expect(result.rule?.id).toBe("june-weekends");
+    });
+
+    it("evaluates rules at the given at time", () => {
+      const matcher = new RuleMatcher(config, registry, { clock: () => FRIDAY_NOON_UTC });
+      const request = { originAsset: USDC_ETH, destinationAsset: USDC_BASE };
+
+      expect(matcher.match(request, { at: SATURDAY_NOON_UTC }).matched).toBe(true);
+      expect(matcher.match(request, { at: new Date(SATURDAY_NOON_UTC) }).matched).toBe(true);
+      expect(matcher.match(request, { at: new Date("2025-07-05T12:00:00Z") }).matched).toBe(false);
+      expect(matcher.match(request).matched).toBe(false);
+    });
+
+    it("checks price staleness against the clock, not at", () => {
+      const now = Date.UTC(2025, 5, 6, 12, 0);
+      const pricedRegistry = createMockRegistry(
+        TOKENS.map((t) => ({ ...t, price: 1, priceUpdatedAt: new Date(now - 60000).toISOString() }))
+      );
+      const usdConfig: FeeConfig = {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        rules: [
+          {
+            id: "large-usd",
+            enabled: true,
+            match: { in: { symbol: "USDC", minUsd: 1000 }, out: { symbol: "USDC" } },
+            fee: { type: "bps", bps: 5, recipient: "fees.near" },
+          },
+        ],
+      };
+      const matcher = new RuleMatcher(usdConfig, pricedRegistry, { clock: () => now });
+      const request = { originAsset: USDC_ETH, destinationAsset: USDC_BASE, amount: "5000000000" };
+
+      expect(matcher.match(request).matched).toBe(true);
+      expect(matcher.match(request, { at: now + 30 * 86400000 }).matched).toBe(true);
+    });
+
+    it("throws on an invalid at time", () => {
+      const matcher = new RuleMatcher(config, registry);
+      const request = { originAsset: USDC_ETH, destinationAsset: USDC_BASE };
+
+      expect(() => matcher.match(request, { at: new Date("not-a-date") })).toThrow("Invalid at");
+      expect(() => matcher.match(request, { at: NaN })).toThrow("Invalid at");
+    });
+  });
+
+  describe("request context", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "acme-wallet",
+          enabled: true,
+          priority: 200,
+          match: { context: { partnerId: "acme", appId: ["wallet", "wallet-*"] } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "non-exact-output-usdc",
+          enabled: true,
+          priority: 100,
+          match: {
+            in: { symbol: "USDC" },
+            out: { symbol: "USDC" },
+            context: { swapType: "!EXACT_OUTPUT" },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+    const matcher = new RuleMatcher(config, registry);
+
+    it("matches rules on context values", () => {
+      const result = matcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: USDC_BASE,
+        context: { partnerId: "acme", appId: "wallet-ios" },
+      });
+
+      expect(result.rule?.id).toBe("acme-wallet");
+      expect(result.matchDetails?.context).toEqual({
+        branch: "context",
+        matchedBy: { partnerId: true, appId: true },
+      });
+    });
+
+    it("requires every listed key to match", () => {
+      const result = matcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: USDC_BASE,
+        context: { partnerId: "acme", appId: "dex", swapType: "EXACT_INPUT" },
+      });
+
+      expect(result.rule?.id).toBe("non-exact-output-usdc");
+    });
+
+    it("matches a missing context value with negations only", () => {
+      const withoutContext = matcher.match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE });
+      expect(withoutContext.rule?.id).toBe("non-exact-output-usdc");
+
+      const withoutAppId = matcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: USDC_BASE,
+        context: { partnerId: "acme", swapType: "EXACT_OUTPUT" },
+      });
+      expect(withoutAppId.matched).toBe(false);
+    });
+
+    it("uses \"*\" to require a context key and \"!*\" to require its absence", () => {
+      const presenceConfig: FeeConfig = {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        rules: [
+          {
+            id: "any-partner",
+            enabled: true,
+            priority: 200,
+            match: { context: { partnerId: "*" } },
+            fee: { type: "bps", bps: 10, recipient: "fees.near" },
+          },
+          {
+            id: "no-partner",
+            enabled: true,
+            priority: 100,
+            match: { context: { partnerId: "!*" } },
+            fee: { type: "bps", bps: 25, recipient: "fees.near" },
+          },
+        ],
+      };
+      const presenceMatcher = new RuleMatcher(presenceConfig, registry);
+
+      const withPartner = presenceMatcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: USDC_BASE,
+        context: { partnerId: "acme" },
+      });
+      expect(withPartner.rule?.id).toBe("any-partner");
+
+      const withoutPartner = presenceMatcher.match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE });
+      expect(withoutPartner.rule?.id).toBe("no-partner");
+    });
+
+    it("combines with token matchers", () => {
+      const result = matcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near",
+        context: { swapType: "EXACT_INPUT" },
+      });
+
+      expect(result.matched).toBe(false);
+    });
+
+    it("matches custom context keys inside composite conditions", () => {
+      const customConfig: FeeConfig = {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        context_keys: ["region"],
+        rules: [
+          {
+            id: "eu-or-referred",
+            enabled: true,
+            match: { any: [{ context: { region: "EU" } }, { context: { referralCode: "*" } }] },
+            fee: { type: "bps", bps: 15, recipient: "fees.near" },
+          },
+        ],
+      };
+      const customMatcher = new RuleMatcher(customConfig, registry);
+
+      const referred = customMatcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: USDC_BASE,
+        context: { region: "US", referralCode: "FRIEND10" },
+      });
+      expect(referred.matched).toBe(true);
+      expect(referred.matchDetails?.context?.branch).toBe("any[1].context");
+    });
+  });
+
+  describe("resolution strategies", () => {
+    const request = { originAsset: USDC_ETH, destinationAsset: USDC_BASE };
+
+    const rules: FeeConfig["rules"] = [
+      {
+        id: "eth-anything",
+        enabled: true,
+        priority: 300,
+        match: { in: { blockchain: "eth" }, out: { symbol: "*" } },
+        fee: { type: "bps", bps: 15, recipient: "fees.near" },
+      },
+      {
+        id: "usdc-pair",
+        enabled: true,
+        priority: 200,
+        match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+        fee: { type: "bps", bps: 8, recipient: "fees.near" },
+      },
+      {
+        id: "exact-asset",
+        enabled: true,
+        priority: 100,
+        match: { in: { assetId: USDC_ETH }, out: { blockchain: "*" } },
+        fee: [
+          { type: "bps", bps: 10, recipient: "fees.near" },
+          { type: "bps", bps: 10, recipient: "partner.near" },
+        ],
+      },
+    ];
+
+    function configWith(strategy?: FeeConfig["strategy"], overrides: FeeConfig["rules"] = rules): FeeConfig {
+      return {
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 30, recipient: "fees.near" },
+        strategy,
+        rules: overrides,
+      };
+    }
+
+    it("defaults to first-match by priority", () => {
+      const result = new RuleMatcher(configWith(), registry).match(request);
+
+      expect(result.rule?.id).toBe("eth-anything");
+      expect(result.strategy).toBe("first-match");
+    });
+
+    it("most-specific prefers the most specific side, then the other side", () => {
+      const result = new RuleMatcher(configWith("most-specific"), registry).match(request);
+
+      // exact-asset ranks [6, 0], usdc-pair [5, 5], eth-anything [4, 0]
+      expect(result.rule?.id).toBe("exact-asset");
+      expect(result.strategy).toBe("most-specific");
+    });
+
+    it("most-specific compares the less specific side on a tie", () => {
+      const tied: FeeConfig["rules"] = [
+        {
+          id: "usdc-in",
+          enabled: true,
+          priority: 200,
+          match: { in: { symbol: "USDC" }, out: { blockchain: "*" } },
+          fee: { type: "bps", bps: 12, recipient: "fees.near" },
+        },
+        {
+          id: "usdc-to-base",
+          enabled: true,
+          priority: 100,
+          match: { in: { symbol: "USDC" }, out: { blockchain: "base" } },
+          fee: { type: "bps", bps: 9, recipient: "fees.near" },
+        },
+      ];
+
+      const result = new RuleMatcher(configWith("most-specific", tied), registry).match(request);
+      expect(result.rule?.id).toBe("usdc-to-base");
+    });
+
+    it("most-specific ranks patterns below exact values", () => {
+      const patterns: FeeConfig["rules"] = [
+        {
+          id: "negated-assets",
+          enabled: true,
+          priority: 300,
+          match: { in: { assetId: "!zzz" }, out: { assetId: "!yyy" } },
+          fee: { type: "bps", bps: 12, recipient: "fees.near" },
+        },
+        {
+          id: "glob-assets",
+          enabled: true,
+          priority: 200,
+          match: { in: { assetId: "nep141:eth-*" }, out: { assetId: "nep141:base-*" } },
+          fee: { type: "bps", bps: 11, recipient: "fees.near" },
+        },
+        {
+          id: "usdc-pair",
+          enabled: true,
+          priority: 100,
+          match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+          fee: { type: "bps", bps: 8, recipient: "fees.near" },
+        },
+      ];
+
+      const result = new RuleMatcher(configWith("most-specific", patterns), registry).match(request);
+      expect(result.rule?.id).toBe("usdc-pair");
+    });
+
+    it("most-specific ranks exact blockchains above patterns and patterns above wildcards", () => {
+      const ranked: FeeConfig["rules"] = [
+        {
+          id: "any",
+          enabled: true,
+          priority: 400,
+          match: { in: { assetId: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        },
+        {
+          id: "set-symbols",
+          enabled: true,
+          priority: 300,
+          match: { in: { symbol: "/^USD/" }, out: { symbol: ["USDC", "!DAI"] } },
+          fee: { type: "bps", bps: 12, recipient: "fees.near" },
+        },
+        {
+          id: "eth-to-base",
+          enabled: true,
+          priority: 100,
+          match: { in: { blockchain: "eth" }, out: { blockchain: "base" } },
+          fee: { type: "bps", bps: 9, recipient: "fees.near" },
+        },
+      ];
+
+      const matcher = new RuleMatcher(configWith("most-specific", ranked), registry);
+      expect(matcher.match(request).rule?.id).toBe("eth-to-base");
+
+      const withoutExact = new RuleMatcher(configWith("most-specific", ranked.slice(0, 2)), registry);
+      expect(withoutExact.match(request).rule?.id).toBe("set-symbols");
+    });
+
+    it("most-specific counts matchers inside composite conditions", () => {
+      const composite: FeeConfig["rules"] = [
+        {
+          id: "blockchain-only",
+          enabled: true,
+          priority: 200,
+          match: { in: { blockchain: "eth" }, out: { blockchain: "base" } },
+          fee: { type: "bps", bps: 12, recipient: "fees.near" },
+        },
+        {
+          id: "all-symbols",
+          enabled: true,
+          priority: 100,
+          match: { all: [{ in: { blockchain: "eth" } }, { in: { symbol: "USDC" }, out: { blockchain: "base" } }] },
+          fee: { type: "bps", bps: 9, recipient: "fees.near" },
+        },
+      ];
+
+      const result = new RuleMatcher(configWith("most-specific", composite), registry).match(request);
+      expect(result.rule?.id).toBe("all-symbols");
+    });
+
+    it("lowest-fee and highest-fee compare total bps across recipients", () => {
+      expect(new RuleMatcher(configWith("lowest-fee"), registry).match(request).rule?.id).toBe("usdc-pair");
+      expect(new RuleMatcher(configWith("highest-fee"), registry).match(request).rule?.id).toBe("exact-asset");
+    });
+
+    it("breaks ties by priority, then array order", () => {
+      const tied: FeeConfig["rules"] = [
+        {
+          id: "first-in-array",
+          enabled: true,
+          match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "second-in-array",
+          enabled: true,
+          match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "higher-priority",
+          enabled: true,
+          priority: 150,
+          match: { in: { blockchain: "eth" }, out: { blockchain: "base" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+      ];
+
+      expect(new RuleMatcher(configWith("lowest-fee", tied), registry).match(request).rule?.id).toBe("higher-priority");
+      expect(new RuleMatcher(configWith("most-specific", tied), registry).match(request).rule?.id).toBe("first-in-array");
+    });
+
+    it("lets options override the config strategy", () => {
+      const matcher = new RuleMatcher(configWith("lowest-fee"), registry, { strategy: "highest-fee" });
+      const result = matcher.match(request);
+
+      expect(result.rule?.id).toBe("exact-asset");
+      expect(result.strategy).toBe("highest-fee");
+    });
+
+    it("does not record a strategy when no rule matches", () => {
+      const result = new RuleMatcher(configWith("most-specific", []), registry).match(request);
+
+      expect(result.matched).toBe(false);
+      expect(result.strategy).toBeUndefined();
+    });
+
+    it("throws on an unknown strategy", () => {
+      expect(() => new RuleMatcher(configWith(), registry, { strategy: "random" as never })).toThrow(
+        'Invalid strategy "random"'
+      );
+    });
+  });
+
+  describe("modifier rules", () => {
+    const USDC_SOL = "nep141:sol-5ce3bf3a31af18be40ba30f721101b4341690186.omft.near";
+
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "usdc-base",
+          enabled: true,
+          priority: 100,
+          match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+        {
+          id: "sol-surcharge",
+          enabled: true,
+          priority: 50,
+          mode: "add",
+          match: { in: { blockchain: "*" }, out: { blockchain: "sol" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "partner-discount",
+          enabled: true,
+          priority: 200,
+          mode: "multiply",
+          multiplier: 0.75,
+          match: { context: { partnerId: "acme" } },
+        },
+      ],
+    };
+    const matcher = new RuleMatcher(config, registry);
+
+    it("returns the base fee unchanged when no modifier matches", () => {
+      const result = matcher.match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE });
+
+      expect(result.rule?.id).toBe("usdc-base");
+      expect(result.fee).toEqual({ type: "bps", bps: 10, recipient: "fees.near" });
+      expect(result.modifiers).toBeUndefined();
+    });
+
+    it("adds bps to the base fee", () => {
+      const result = matcher.match({ originAsset: USDC_ETH, destinationAsset: USDC_SOL });
+
+      expect(result.rule?.id).toBe("usdc-base");
+      expect(result.fee).toEqual({ type: "bps", bps: 15, recipient: "fees.near" });
+      expect(result.modifiers?.map((m) => [m.rule.id, m.mode, m.bpsBefore, m.bpsAfter])).toEqual([
+        ["sol-surcharge", "add", 10, 15],
+      ]);
+    });
+
+    it("applies modifiers in priority order", () => {
+      const result = matcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: USDC_SOL,
+        context: { partnerId: "acme" },
+      });
+
+      // 10 * 0.75 = 7.5 -> 8, then + 5
+      expect(getBps(result.fee)).toBe(13);
+      expect(result.modifiers?.map((m) => m.rule.id)).toEqual(["partner-discount", "sol-surcharge"]);
+    });
+
+    it("applies modifiers to the default fee when no base rule matches", () => {
+      const result = matcher.match({
+        originAsset: USDC_ETH,
+        destinationAsset: "nep141:eth-0x2260fac5e5542a773aa44fbcfedf7c193bc2c599.omft.near",
+        context: { partnerId: "acme" },
+      });
+
+      expect(result.matched).toBe(false);
+      expect(result.rule).toBeUndefined();
+      expect(result.fee).toEqual({ type: "bps", bps: 15, recipient: "fees.near" });
+      expect(result.modifiers?.[0]?.rule.id).toBe("partner-discount");
+    });
+
+    it("adds new recipients and subtracts from existing ones", () => {
+      const splitConfig: FeeConfig = {
+        version: "1.0.0",
+        default_fee: [
+          { type: "bps", bps: 10, recipient: "fees.near" },
+          { type: "bps", bps: 4, recipient: "partner.near" },
+        ],
+        rules: [
+          {
+            id: "referral",
+            enabled: true,
+            mode: "add",
+            match: { in: { symbol: "USDC" }, out: { symbol: "*" } },
+            fee: [
+              { type: "bps", bps: -6, recipient: "partner.near" },
+              { type: "bps", bps: 3, recipient: "referrer.near" },
+            ],
+          },
+        ],
+      };
+
+      const result = new RuleMatcher(splitConfig, registry).match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE });
+
+      expect(result.fee).toEqual([
+        { type: "bps", bps: 10, recipient: "fees.near" },
+        { type: "bps", bps: 0, recipient: "partner.near" },
+        { type: "bps", bps: 3, recipient: "referrer.near" },
+      ]);
+      expect(splitConfig.default_fee).toEqual([
+        { type: "bps", bps: 10, recipient: "fees.near" },
+        { type: "bps", bps: 4, recipient: "partner.near" },
+      ]);
+    });
+
+    it("clamps the total to 10000 bps", () => {
+      const highConfig: FeeConfig = {
+        version: "1.0.0",
+        default_fee: [
+          { type: "bps", bps: 6000, recipient: "fees.near" },
+          { type: "bps", bps: 3000, recipient: "partner.near" },
+        ],
+        rules: [
+          {
+            id: "double",
+            enabled: true,
+            mode: "multiply",
+            multiplier: 2,
+            match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          },
+        ],
+      };
+
+      const result = new RuleMatcher(highConfig, registry).match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE });
+
+      expect(result.fee).toEqual([
+        { type: "bps", bps: 10000, recipient: "fees.near" },
+        { type: "bps", bps: 0, recipient: "partner.near" },
+      ]);
+      expect(result.modifiers?.[0]?.bpsAfter).toBe(10000);
+    });
+
+    it("excludes modifiers from base rule resolution strategies", () => {
+      const strategyConfig: FeeConfig = {
+        ...config,
+        strategy: "lowest-fee",
+        rules: [
+          ...config.rules,
+          {
+            id: "sol-discount",
+            enabled: true,
+            mode: "add",
+            match: { in: { symbol: "USDC" }, out: { blockchain: "sol" } },
+            fee: { type: "bps", bps: -8, recipient: "fees.near" },
+          },
+        ],
+      };
+
+      const result = new RuleMatcher(strategyConfig, registry).match({ originAsset: USDC_ETH, destinationAsset: USDC_SOL });
+
+      expect(result.rule?.id).toBe("usdc-base");
+      expect(result.modifiers?.map((m) => m.rule.id)).toEqual(["sol-discount", "sol-surcharge"]);
+      expect(getBps(result.fee)).toBe(7);
+    });
+  });
+
+  describe("fee types", () => {
+    const tiered: Fee = {
+      type: "tiered",
+      method: "flat",
+      tiers: [{ up_to: "1000000000", bps: 30 }, { bps: 5 }],
+      recipient: "fees.near",
+    };
+    const fixed: Fee = { type: "fixed", amount: "1000000", asset: USDC_ETH, recipient: "fees.near" };
+
+    function configWith(rules: FeeConfig["rules"], strategy?: FeeConfig["strategy"]): FeeConfig {
+      return { version: "1.0.0", default_fee: { type: "bps", bps: 20, recipient: "fees.near" }, strategy, rules };
+    }
+
+    it("compares tiered fees at the request amount in fee strategies", () => {
+      const config = configWith(
+        [
+          { id: "tiered", enabled: true, match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } }, fee: tiered },
+          {
+            id: "bps",
+            enabled: true,
+            match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+            fee: { type: "bps", bps: 10, recipient: "fees.near" },
+          },
+          { id: "fixed", enabled: true, match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } }, fee: fixed },
+        ],
+        "lowest-fee"
+      );
+      const matcher = new RuleMatcher(config, registry);
+
+      expect(matcher.match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE, amount: "100000000" }).rule?.id).toBe("bps");
+      expect(matcher.match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE, amount: "5000000000" }).rule?.id).toBe(
+        "tiered"
+      );
+      // Without an amount only the bps fee has a rate
+      expect(matcher.match({ originAsset: USDC_ETH, destinationAsset: USDC_BASE }).rule?.id).toBe("bps");
+    });
+
+    it("applies modifiers to tiered and fixed fees", () => {
+      const config = configWith([
+        {
+          id: "base",
+          enabled: true,
+          match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+          fee: [tiered, { ...fixed, recipient: "partner.near" }],
+        },
+        {
+          id: "surcharge",
+          enabled: true,
+          priority: 50,
+          mode: "add",
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: [
+            { type: "bps", bps: 2, recipient: "fees.near" },
+            { type: "bps", bps: 1, recipient: "partner.near" },
+          ],
+        },
+        {
+          id: "half",
+          enabled: true,
+          priority: 10,
+          mode: "multiply",
+          multiplier: 0.5,
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+        },
+      ]);
+
+      const result = new RuleMatcher(config, registry).match({
+        originAsset: USDC_ETH,
+        destinationAsset: USDC_BASE,
+        amount: "5000000000",
+      });
+
+      expect(result.fee).toEqual([
+        { type: "tiered", method: "flat", tiers: [{ up_to: "1000000000", bps: 16 }, { bps: 4 }], recipient: "fees.near" },
+        { ...fixed, recipient: "partner.near", amount: "500000" },
+        { type: "bps", bps: 1, recipient: "partner.near" },
+      ]);
+      expect(result.modifiers?.map((m) => [m.rule.id, m.bpsBefore, m.bpsAfter])).toEqual([
+        ["surcharge", undefined, undefined],
+        ["half", undefined, undefined],
+      ]);
+    });
+  });
+
+  describe("getAffectedRules", () => {
+    const USDC_ETH: TokenInfo = { assetId: "nep141:usdc-eth", blockchain: "eth", symbol: "USDC", decimals: 6 };
+    const USDT_SOL: TokenInfo = { assetId: "nep141:usdt-sol", blockchain: "sol", symbol: "USDT", decimals: 6 };
+    const fee: Fee = { type: "bps", bps: 10, recipient: "fees.near" };
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        { id: "usdc", enabled: true, match: { in: { symbol: "USDC" }, out: { symbol: "*" } }, fee },
+        { id: "any", enabled: true, match: { in: { blockchain: "*" }, out: { symbol: "*" } }, fee },
+        {
+          id: "large-eth",
+          enabled: true,
+          priority: 200,
+          match: { any: [{ in: { blockchain: "eth", min: "1000000000" } }] },
+          fee,
+        },
+        { id: "same-symbol", enabled: true, match: { route: { sameSymbol: true } }, fee },
+        { id: "disabled", enabled: false, match: { in: { symbol: "USDC" } }, fee },
+      ],
+    };
+    const matcher = new RuleMatcher(config, createMockRegistry([]));
+    const ids = (diff: Parameters<RuleMatcher["getAffectedRules"]>[0]) =>
+      matcher.getAffectedRules(diff).map((a) => a.rule.id);
+
+    it("reports enabled rules that single out added or removed tokens", () => {
+      expect(ids({ added: [USDC_ETH], removed: [], changed: [] })).toEqual(["large-eth", "usdc"]);
+      expect(ids({ added: [], removed: [USDT_SOL], changed: [] })).toEqual([]);
+    });
+
+    it("reports rules whose match changes with a relabelled token", () => {
+      const after = { ...USDC_ETH, symbol: "USDC.e" };
+      const affected = matcher.getAffectedRules({
+        added: [],
+        removed: [],
+        changed: [{ assetId: USDC_ETH.assetId, before: USDC_ETH, after, fields: ["symbol"] }],
+      });
+
+      expect(affected).toEqual([
+        { rule: config.rules[0]!, assetIds: [USDC_ETH.assetId] },
+        { rule: config.rules[3]!, assetIds: [USDC_ETH.assetId] },
+      ]);
+    });
+
+    it("reports rules with amount bounds when decimals change", () => {
+      const after = { ...USDC_ETH, decimals: 18 };
+      expect(
+        ids({
+          added: [],
+          removed: [],
+          changed: [{ assetId: USDC_ETH.assetId, before: USDC_ETH, after, fields: ["decimals"] }],
+        })
+      ).toEqual(["large-eth"]);
+    });
+
+    it("reports rules with USD bounds when decimals change", () => {
+      const usdConfig: FeeConfig = {
+        ...config,
+        rules: [
+          { id: "large-usd", enabled: true, match: { in: { symbol: "USDC", minUsd: 1000 } }, fee },
+          { id: "small-usd", enabled: true, match: { out: { blockchain: "eth", maxUsd: 10 } }, fee },
+        ],
+      };
+      const after = { ...USDC_ETH, decimals: 18 };
+      const affected = new RuleMatcher(usdConfig, createMockRegistry([])).getAffectedRules({
+        added: [],
+        removed: [],
+        changed: [{ assetId: USDC_ETH.assetId, before: USDC_ETH, after, fields: ["decimals"] }],
+      });
+
+      expect(affected.map((a) => a.rule.id)).toEqual(["large-usd", "small-usd"]);
+    });
+  });
 });
@@ -1,14 +1,213 @@
-import type { Rule, FeeConfig, TokenInfo, TokenMatcher, TokenMatchInfo, MatchResult, SwapRequest, TokenRegistry } from "./types";
+import type {
+  Rule,
+  Fee,
+  FeeConfig,
+  TokenInfo,
+  TokenExclusion,
+  TokenMatcher,
+  TokenMatchInfo,
+  MatchResult,
+  SwapRequest,
+  MatchOptions,
+  TokenRegistry,
+  RuleMatch,
+  RoutePredicates,
+  RouteMatchInfo,
+  ContextMatcher,
+  ContextMatchInfo,
+  SwapContext,
+  MatchDirection,
+  ResolutionStrategy,
+  AppliedModifier,
+  AffectedRule,
+  TokenRegistryDiff,
+} from "./types";
+import { getEffectiveBps } from "./fees";
+import { compilePattern, isExactValue, resolveSets, type ResolvedSets, type ValuePredicate } from "./patterns";
+import { DEFAULT_MAX_PRICE_AGE_MS, getUsdPrice, getUsdValue } from "./pricing";
+import { isRuleActiveAt } from "./schedule";
+
+export interface RuleMatcherOptions {
+  /**
+   * Maximum age of a token's `priceUpdatedAt` for its price to be used by `minUsd`/`maxUsd`
+   * bounds. Defaults to 2 hours.
+   */
+  maxPriceAgeMs?: number;
+  /** Returns the current time in milliseconds since the epoch. Defaults to `Date.now`. */
+  clock?: () => number;
+  /** Overrides `FeeConfig.strategy`. */
+  strategy?: ResolutionStrategy;
+}
+
+const MAX_BPS = 10000; // 100% fee cap
+
+export const RESOLUTION_STRATEGIES: readonly ResolutionStrategy[] = [
+  "first-match",
+  "most-specific",
+  "lowest-fee",
+  "highest-fee",
+];
+
+interface SwapAttributes {
+  amount?: bigint;
+  usdValue?: number;
+  context?: SwapContext;
+}
+
+interface ConditionMatch {
+  in?: TokenMatchInfo;
+  out?: TokenMatchInfo;
+  route?: RouteMatchInfo;
+  context?: ContextMatchInfo;
+  /** Specificity of the `in`/`out` matchers that constrained the match (see `tokenSpecificity`). */
+  inRank: number;
+  outRank: number;
+}
+
+interface Candidate {
+  rule: Rule;
+  direction: MatchDirection;
+  conditionMatch: ConditionMatch;
+}
+
+const MULTIPLIER_SCALE = 1000000;
+
+/** Multiplies a fee entry's bps (every tier's, for tiered fees) or fixed amount, rounding to integers. */
+function multiplyFee(fee: Fee, multiplier: number): Fee {
+  switch (fee.type) {
+    case "bps":
+      return { ...fee, bps: Math.round(fee.bps * multiplier) };
+    case "tiered":
+      return { ...fee, tiers: fee.tiers.map((t) => ({ ...t, bps: Math.round(t.bps * multiplier) })) };
+    case "fixed": {
+      const scaled = (BigInt(fee.amount) * BigInt(Math.round(multiplier * MULTIPLIER_SCALE))) / BigInt(MULTIPLIER_SCALE);
+      return { ...fee, amount: scaled.toString() };
+    }
+  }
+}
+
+/** Adds bps to a fee entry (every tier, for tiered fees). Fixed fees are returned unchanged. */
+function addBps(fee: Fee, bps: number): Fee {
+  switch (fee.type) {
+    case "bps":
+      return { ...fee, bps: fee.bps + bps };
+    case "tiered":
+      return { ...fee, tiers: fee.tiers.map((t) => ({ ...t, bps: t.bps + bps })) };
+    default:
+      return fee;
+  }
+}
+
+/**
+ * Keeps every bps value (including tier bps) between 0 and `MAX_BPS`, then caps the
+ * total of the `bps` entries at `MAX_BPS`, taking any excess from the last entries first.
+ */
+function clampFees(fees: Fee[]): Fee[] {
+  const clampBps = (bps: number) => Math.min(MAX_BPS, Math.max(0, bps));
+  const clamped = fees.map((f): Fee => {
+    if (f.type === "bps") return { ...f, bps: clampBps(f.bps) };
+    if (f.type === "tiered") return { ...f, tiers: f.tiers.map((t) => ({ ...t, bps: clampBps(t.bps) })) };
+    return f;
+  });
+
+  let excess = clamped.reduce((sum, f) => sum + (f.type === "bps" ? f.bps : 0), 0) - MAX_BPS;
+  for (let i = clamped.length - 1; i >= 0 && excess > 0; i--) {
+    const fee = clamped[i]!;
+    if (fee.type !== "bps") continue;
+    const reduction = Math.min(fee.bps, excess);
+    clamped[i] = { ...fee, bps: fee.bps - reduction };
+    excess -= reduction;
+  }
+  return clamped;
+}
+
+function isWildcard(value: string | string[]): boolean {
+  return Array.isArray(value) ? value.includes("*") : value === "*";
+}
+
+/**
+ * Exact values rank above patterns: 6 for exact assetIds, 5 for exact symbols, 4 for
+ * exact blockchains, then 3, 2 and 1 for negations, globs, regexes or set references in
+ * those fields, and 0 for wildcards only. A field ranks as exact only if all its values are.
+ */
+function tokenSpecificity(matcher: TokenMatcher): number {
+  const fields = [matcher.assetId, matcher.symbol, matcher.blockchain];
+  let rank = 0;
+  fields.forEach((value, i) => {
+    if (value === undefined || isWildcard(value)) return;
+    const exact = (Array.isArray(value) ? value : [value]).every(isExactValue);
+    rank = Math.max(rank, (exact ? 6 : 3) - i);
+  });
+  return rank;
+}
+
+/** Compares the more specific sides first, then the less specific ones. Positive if `a` is more specific. */
+function compareSpecificity(a: ConditionMatch, b: ConditionMatch): number {
+  const ranksA = [a.inRank, a.outRank].sort((x, y) => y - x);
+  const ranksB = [b.inRank, b.outRank].sort((x, y) => y - x);
+  return ranksA[0]! - ranksB[0]! || ranksA[1]! - ranksB[1]!;
+}
+
+/**
+ * Whether a context pattern matches a key that is missing from the request: negations
+ * do (a missing partner is not `"acme"`), while exact values, patterns and `"*"` do not.
+ * So `"*"` requires the key and `"!*"` requires its absence.
+ */
+function matchesMissingValue(pattern: string | string[]): boolean {
+  return (Array.isArray(pattern) ? pattern : [pattern]).some((p) => p.startsWith("!"));
+}
+
+/** Token matchers and whether route predicates appear anywhere in a rule's condition tree. */
+function collectTokenConditions(
+  condition: RuleMatch,
+  result: { matchers: TokenMatcher[]; hasRoute: boolean } = { matchers: [], hasRoute: false }
+) {
+  if (condition.in) result.matchers.push(condition.in);
+  if (condition.out) result.matchers.push(condition.out);
+  if (condition.route) result.hasRoute = true;
+  for (const child of [...(condition.all ?? []), ...(condition.any ?? [])]) {
+    collectTokenConditions(child, result);
+  }
+  if (condition.not) collectTokenConditions(condition.not, result);
+  return result;
+}
+
+/** True if the matcher singles out some tokens rather than accepting any token. */
+function isTokenRestricted(matcher: TokenMatcher): boolean {
+  return (
+    matcher.exclude !== undefined ||
+    [matcher.assetId, matcher.blockchain, matcher.symbol].some((value) => value !== undefined && !isWildcard(value))
+  );
+}
+
+/** True if the matcher has `min`/`max` amount or `minUsd`/`maxUsd` bounds. */
+function hasAmountBounds(matcher: TokenMatcher): boolean {
+  return [matcher.min, matcher.max, matcher.minUsd, matcher.maxUsd].some((bound) => bound !== undefined);
+}
 
 export class RuleMatcher {
   private rules: Rule[];
+  private amountBounded: boolean;
   private defaultFee: FeeConfig["default_fee"];
   private tokenRegistry: TokenRegistry;
+  private maxPriceAgeMs: number;
+  private clock: () => number;
+  private strategy: ResolutionStrategy;
+  private sets: ResolvedSets;
+  private compiledPatterns: Map<string, ValuePredicate> = new Map();
 
-  constructor(config: FeeConfig, tokenRegistry: TokenRegistry) {
+  constructor(config: FeeConfig, tokenRegistry: TokenRegistry, options?: RuleMatcherOptions) {
     this.defaultFee = config.default_fee;
+    this.sets = resolveSets(config.sets);
     this.rules = this.sortRulesByPriority(config.rules);
+    this.amountBounded = this.rules.some((rule) => collectTokenConditions(rule.match).matchers.some(hasAmountBounds));
     this.tokenRegistry = tokenRegistry;
+    this.maxPriceAgeMs = options?.maxPriceAgeMs ?? DEFAULT_MAX_PRICE_AGE_MS;
+    this.clock = options?.clock ?? Date.now;
+    this.strategy = options?.strategy ?? config.strategy ?? "first-match";
+    if (!RESOLUTION_STRATEGIES.includes(this.strategy)) {
+      throw new Error(`Invalid strategy "${this.strategy}": expected one of ${RESOLUTION_STRATEGIES.join(", ")}`);
+    }
   }
 
   private sortRulesByPriority(rules: Rule[]): Rule[] {
@@ -20,11 +219,12 @@ export class RuleMatcher {
   }
 
   private matchesSinglePattern(pattern: string, value: string): boolean {
-    if (pattern === "*") return true;
-    if (pattern.startsWith("!")) {
-      return value !== pattern.slice(1);
+    let predicate = this.compiledPatterns.get(pattern);
+    if (!predicate) {
+      predicate = compilePattern(pattern, this.sets);
+      this.compiledPatterns.set(pattern, predicate);
     }
-    return pattern === value;
+    return predicate(value);
   }
 
   private matchesValue(pattern: string | string[], value: string): boolean {
@@ -34,7 +234,42 @@ export class RuleMatcher {
     return this.matchesSinglePattern(pattern, value);
   }
 
-  private matchesToken(matcher: TokenMatcher, token: TokenInfo): TokenMatchInfo | null {
+  private isExcluded(exclusion: TokenExclusion, token: TokenInfo): boolean {
+    if (exclusion.assetId && this.matchesValue(exclusion.assetId, token.assetId)) return true;
+    if (exclusion.blockchain && this.matchesValue(exclusion.blockchain, token.blockchain)) return true;
+    if (exclusion.symbol && this.matchesValue(exclusion.symbol, token.symbol)) return true;
+    return false;
+  }
+
+  /** Matches the token's identity (`assetId`, `blockchain`, `symbol`, `exclude`), ignoring amounts. */
+  private matchesTokenIdentity(matcher: TokenMatcher, token: TokenInfo): boolean {
+    if (matcher.assetId && !this.matchesValue(matcher.assetId, token.assetId)) return false;
+    if (matcher.blockchain && !this.matchesValue(matcher.blockchain, token.blockchain)) return false;
+    if (matcher.symbol && !this.matchesValue(matcher.symbol, token.symbol)) return false;
+    if (matcher.exclude && this.isExcluded(matcher.exclude, token)) return false;
+    return true;
+  }
+
+  private matchesAmount(matcher: TokenMatcher, amount: bigint | undefined): boolean {
+    if (amount === undefined) return false;
+    if (matcher.min !== undefined && amount < BigInt(matcher.min)) return false;
+    if (matcher.max !== undefined && amount > BigInt(matcher.max)) return false;
+    return true;
+  }
+
+  private matchesUsdValue(matcher: TokenMatcher, usdValue: number | undefined): boolean {
+    if (usdValue === undefined) return false;
+    if (matcher.minUsd !== undefined && usdValue < matcher.minUsd) return false;
+    if (matcher.maxUsd !== undefined && usdValue > matcher.maxUsd) return false;
+    return true;
+  }
+
+  private matchesToken(
+    matcher: TokenMatcher,
+    token: TokenInfo,
+    swap: SwapAttributes,
+    branch: string
+  ): TokenMatchInfo | null {
     const matchedBy: TokenMatchInfo["matchedBy"] = {};
 
     if (matcher.assetId) {
@@ -55,32 +290,275 @@ export class RuleMatcher {
       }
       matchedBy.symbol = true;
     }
+    if (matcher.exclude) {
+      if (this.isExcluded(matcher.exclude, token)) {
+        return null;
+      }
+      matchedBy.exclude = true;
+    }
+    if (matcher.min !== undefined || matcher.max !== undefined) {
+      if (!this.matchesAmount(matcher, swap.amount)) {
+        return null;
+      }
+      matchedBy.amount = true;
+    }
+    if (matcher.minUsd !== undefined || matcher.maxUsd !== undefined) {
+      if (!this.matchesUsdValue(matcher, swap.usdValue)) {
+        return null;
+      }
+      matchedBy.usd = true;
+    }
+
+    return { token, branch, matchedBy };
+  }
+
+  private matchesRoute(
+    predicates: RoutePredicates,
+    originToken: TokenInfo,
+    destinationToken: TokenInfo,
+    branch: string
+  ): RouteMatchInfo | null {
+    const actual: Required<RoutePredicates> = {
+      sameBlockchain: originToken.blockchain === destinationToken.blockchain,
+      sameSymbol: originToken.symbol === destinationToken.symbol,
+      sameAsset: originToken.assetId === destinationToken.assetId,
+      crossChain: originToken.blockchain !== destinationToken.blockchain,
+    };
+    const matchedBy: RouteMatchInfo["matchedBy"] = {};
+
+    for (const key of ["sameBlockchain", "sameSymbol", "sameAsset", "crossChain"] as const) {
+      const expected = predicates[key];
+      if (expected === undefined) continue;
+      if (actual[key] !== expected) return null;
+      matchedBy[key] = true;
+    }
 
-    return { token, matchedBy };
+    return { branch, matchedBy };
   }
 
-  private parseDate(dateStr: string, fieldName: string): number {
-    const timestamp = new Date(dateStr).getTime();
-    if (Number.isNaN(timestamp)) {
-      throw new Error(`Invalid ${fieldName}: "${dateStr}" is not a valid date string`);
+  private matchesContext(
+    matcher: ContextMatcher,
+    context: SwapContext | undefined,
+    branch: string
+  ): ContextMatchInfo | null {
+    const matchedBy: ContextMatchInfo["matchedBy"] = {};
+
+    for (const [key, pattern] of Object.entries(matcher)) {
+      const value = context?.[key];
+      if (typeof value === "string" ? !this.matchesValue(pattern, value) : !matchesMissingValue(pattern)) {
+        return null;
+      }
+      matchedBy[key] = true;
+    }
+
+    return { branch, matchedBy };
+  }
+
+  private evaluateCondition(
+    condition: RuleMatch,
+    originToken: TokenInfo,
+    destinationToken: TokenInfo,
+    swap: SwapAttributes,
+    path: string
+  ): ConditionMatch | null {
+    const branch = (key: string) => (path ? `${path}.${key}` : key);
+    const result: ConditionMatch = { inRank: 0, outRank: 0 };
+
+    const merge = (child: ConditionMatch) => {
+      result.in ??= child.in;
+      result.out ??= child.out;
+      result.route ??= child.route;
+      result.context ??= child.context;
+      result.inRank = Math.max(result.inRank, child.inRank);
+      result.outRank = Math.max(result.outRank, child.outRank);
+    };
+
+    if (condition.in) {
+      const info = this.matchesToken(condition.in, originToken, swap, branch("in"));
+      if (!info) return null;
+      result.in = info;
+      result.inRank = tokenSpecificity(condition.in);
+    }
+    if (condition.out) {
+      const info = this.matchesToken(condition.out, destinationToken, swap, branch("out"));
+      if (!info) return null;
+      result.out = info;
+      result.outRank = tokenSpecificity(condition.out);
+    }
+    if (condition.route) {
+      const info = this.matchesRoute(condition.route, originToken, destinationToken, branch("route"));
+      if (!info) return null;
+      result.route = info;
+    }
+    if (condition.context) {
+      const info = this.matchesContext(condition.context, swap.context, branch("context"));
+      if (!info) return null;
+      result.context = info;
+    }
+    if (condition.all) {
+      for (let i = 0; i < condition.all.length; i++) {
+        const child = this.evaluateCondition(condition.all[i]!, originToken, destinationToken, swap, branch(`all[${i}]`));
+        if (!child) return null;
+        merge(child);
+      }
+    }
+    if (condition.any) {
+      let matched = false;
+      for (let i = 0; i < condition.any.length; i++) {
+        const child = this.evaluateCondition(condition.any[i]!, originToken, destinationToken, swap, branch(`any[${i}]`));
+        if (child) {
+          merge(child);
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) return null;
+    }
+    if (condition.not) {
+      if (this.evaluateCondition(condition.not, originToken, destinationToken, swap, branch("not"))) {
+        return null;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parses the request amount. A malformed amount only throws when some rule has amount
+   * or USD bounds to check; otherwise it is ignored like a missing one.
+   */
+  private parseAmount(amount: string | undefined): bigint | undefined {
+    if (amount === undefined) return undefined;
+    if (/^\d+$/.test(amount)) return BigInt(amount);
+    if (!this.amountBounded) return undefined;
+    throw new Error(`Invalid amount: "${amount}" is not a valid non-negative integer string`);
+  }
+
+  private getSwapAmount(amount: bigint | undefined, originToken: TokenInfo): SwapAttributes {
+    if (amount === undefined) return {};
+    const price = getUsdPrice(originToken, this.clock(), this.maxPriceAgeMs);
+    if (price === undefined) return { amount };
+    return { amount, usdValue: getUsdValue(amount, originToken.decimals, price) };
+  }
+
+  private resolveTime(at: Date | number | undefined): number {
+    if (at === undefined) return this.clock();
+    const timestamp = at instanceof Date ? at.getTime() : at;
+    if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+      throw new Error(`Invalid at: expected a valid Date or timestamp, got ${String(at)}`);
     }
     return timestamp;
   }
 
-  private isRuleValidNow(rule: Rule): boolean {
-    const now = Date.now();
-    if (rule.valid_from) {
-      const from = this.parseDate(rule.valid_from, "valid_from");
-      if (now < from) return false;
+  /**
+   * Returns true if `candidate` should replace `best` under the configured strategy.
+   * Candidates arrive in priority order, so keeping the earlier one on a tie breaks
+   * ties by priority, then array order. For the fee strategies, a fee without a bps
+   * rate for the request (see `getEffectiveBps`) never replaces one with a rate.
+   */
+  private isBetterCandidate(candidate: Candidate, best: Candidate, amount: bigint | undefined): boolean {
+    if (this.strategy === "most-specific") {
+      return compareSpecificity(candidate.conditionMatch, best.conditionMatch) > 0;
     }
-    if (rule.valid_until) {
-      const until = this.parseDate(rule.valid_until, "valid_until");
-      if (now > until) return false;
+    if (this.strategy === "lowest-fee" || this.strategy === "highest-fee") {
+      const candidateBps = getEffectiveBps(candidate.rule.fee!, amount);
+      const bestBps = getEffectiveBps(best.rule.fee!, amount);
+      if (candidateBps === undefined) return false;
+      if (bestBps === undefined) return true;
+      return this.strategy === "lowest-fee" ? candidateBps < bestBps : candidateBps > bestBps;
     }
-    return true;
+    return false;
   }
 
-  match(request: SwapRequest): MatchResult {
+  /**
+   * Applies `add`/`multiply` rules to the base fee in order, clamping after each step
+   * (see `clampFees`). `add` deltas go to the entry with the same recipient, or are
+   * appended if there is none or it is a fixed fee.
+   */
+  private applyModifiers(
+    baseFee: Fee | Fee[],
+    modifiers: Candidate[],
+    amount: bigint | undefined
+  ): { fee: Fee | Fee[]; applied: AppliedModifier[] } {
+    let fees: Fee[] = Array.isArray(baseFee) ? [...baseFee] : [baseFee];
+    const applied: AppliedModifier[] = [];
+
+    for (const { rule, direction } of modifiers) {
+      const bpsBefore = getEffectiveBps(fees, amount);
+      if (rule.mode === "multiply") {
+        const multiplier = rule.multiplier ?? 1;
+        fees = fees.map((f) => multiplyFee(f, multiplier));
+      } else {
+        for (const delta of Array.isArray(rule.fee) ? rule.fee : rule.fee ? [rule.fee] : []) {
+          if (delta.type !== "bps") continue;
+          const index = fees.findIndex((f) => f.recipient === delta.recipient && f.type !== "fixed");
+          if (index >= 0) {
+            fees[index] = addBps(fees[index]!, delta.bps);
+          } else {
+            fees.push({ ...delta });
+          }
+        }
+      }
+      fees = clampFees(fees);
+      applied.push({
+        rule,
+        mode: rule.mode as AppliedModifier["mode"],
+        direction,
+        bpsBefore,
+        bpsAfter: getEffectiveBps(fees, amount),
+      });
+    }
+
+    const fee = !Array.isArray(baseFee) && fees.length === 1 ? fees[0]! : fees;
+    return { fee, applied };
+  }
+
+  /**
+   * Enabled rules, in evaluation order, whose matching may change with the token list
+   * changes in `diff`. A rule is affected when one of its `in`/`out` matchers (anywhere
+   * in its condition tree):
+   * - singles out tokens (not only wildcards) and matches an added or removed token
+   * - matches a changed token before the change but not after it, or the other way round
+   * - has `min`/`max` amount or `minUsd`/`maxUsd` bounds and matches a token whose decimals changed
+   *
+   * Rules with `route` predicates are also affected by blockchain or symbol changes.
+   */
+  getAffectedRules(diff: TokenRegistryDiff): AffectedRule[] {
+    const affected: AffectedRule[] = [];
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+      const { matchers, hasRoute } = collectTokenConditions(rule.match);
+      const assetIds = new Set<string>();
+
+      for (const token of [...diff.added, ...diff.removed]) {
+        if (matchers.some((m) => isTokenRestricted(m) && this.matchesTokenIdentity(m, token))) {
+          assetIds.add(token.assetId);
+        }
+      }
+      for (const { assetId, before, after, fields } of diff.changed) {
+        const decimalsChanged = fields.includes("decimals");
+        const isAffected =
+          (hasRoute && (fields.includes("blockchain") || fields.includes("symbol"))) ||
+          matchers.some((m) => {
+            const matchedBefore = this.matchesTokenIdentity(m, before);
+            const matchedAfter = this.matchesTokenIdentity(m, after);
+            if (matchedBefore !== matchedAfter) return true;
+            return decimalsChanged && matchedBefore && hasAmountBounds(m);
+          });
+        if (isAffected) assetIds.add(assetId);
+      }
+
+      if (assetIds.size > 0) {
+        affected.push({ rule, assetIds: [...assetIds] });
+      }
+    }
+
+    return affected;
+  }
+
+  match(request: SwapRequest, options?: MatchOptions): MatchResult {
+    const at = this.resolveTime(options?.at);
     const originToken = this.tokenRegistry.getToken(request.originAsset);
     const destinationToken = this.tokenRegistry.getToken(request.destinationAsset);
 
@@ -91,31 +569,61 @@ export class RuleMatcher {
       };
     }
 
+    const amount = this.parseAmount(request.amount);
+    const swap: SwapAttributes = { ...this.getSwapAmount(amount, originToken), context: request.context };
+
+    let best: Candidate | undefined;
+    const modifiers: Candidate[] = [];
     for (const rule of this.rules) {
       if (!rule.enabled) continue;
-      if (!this.isRuleValidNow(rule)) continue;
+      const isModifier = rule.mode === "add" || rule.mode === "multiply";
+      // With first-match, only modifiers still need evaluating once a base rule is found
+      if (!isModifier && best && this.strategy === "first-match") continue;
+      if (!isRuleActiveAt(rule, at)) continue;
 
-      const inMatchInfo = this.matchesToken(rule.match.in, originToken);
-      const outMatchInfo = this.matchesToken(rule.match.out, destinationToken);
+      let direction: MatchDirection = "forward";
+      let conditionMatch = this.evaluateCondition(rule.match, originToken, destinationToken, swap, "");
+      if (!conditionMatch && rule.bidirectional) {
+        direction = "reverse";
+        conditionMatch = this.evaluateCondition(rule.match, destinationToken, originToken, swap, "");
+      }
+      if (!conditionMatch) continue;
 
-      if (inMatchInfo && outMatchInfo) {
-        return {
-          matched: true,
-          rule,
-          fee: rule.fee,
-          matchDetails: {
-            originToken,
-            destinationToken,
-            in: inMatchInfo,
-            out: outMatchInfo,
-          },
-        };
+      const candidate: Candidate = { rule, direction, conditionMatch };
+      if (isModifier) {
+        modifiers.push(candidate);
+      } else if (!best || this.isBetterCandidate(candidate, best, swap.amount)) {
+        best = candidate;
       }
     }
 
+    const baseFee = best ? best.rule.fee! : this.defaultFee;
+    const modified = modifiers.length > 0 ? this.applyModifiers(baseFee, modifiers, swap.amount) : undefined;
+
+    if (best) {
+      const { rule, direction, conditionMatch } = best;
+      return {
+        matched: true,
+        rule,
+        fee: modified?.fee ?? baseFee,
+        strategy: this.strategy,
+        modifiers: modified?.applied,
+        matchDetails: {
+          originToken,
+          destinationToken,
+          direction,
+          in: conditionMatch.in,
+          out: conditionMatch.out,
+          route: conditionMatch.route,
+          context: conditionMatch.context,
+        },
+      };
+    }
+
     return {
       matched: false,
-      fee: this.defaultFee,
+      fee: modified?.fee ?? baseFee,
+      modifiers: modified?.applied,
       matchDetails: { originToken, destinationToken },
     };
   }
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFileSnapshotStorage, loadStaticTokenRegistry } from "./node";
+
+const apiTokens = [
+  {
+    assetId: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+    decimals: 6,
+    blockchain: "eth",
+    symbol: "USDC",
+  },
+  { assetId: "nep141:wrap.near", decimals: 24, blockchain: "near", symbol: "wNEAR" },
+];
+
+describe("loadStaticTokenRegistry", () => {
+  it("loads a /v0/tokens response from a file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "tokens-"));
+    try {
+      const path = join(dir, "tokens.json");
+      await writeFile(path, JSON.stringify(apiTokens));
+
+      const registry = await loadStaticTokenRegistry(path);
+      expect(registry.size).toBe(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects missing files", async () => {
+    await expect(loadStaticTokenRegistry(join(tmpdir(), "missing-tokens.json"))).rejects.toThrow("ENOENT");
+  });
+});
+
+describe("createFileSnapshotStorage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "token-snapshot-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("saves and loads the snapshot file", async () => {
+    const path = join(dir, "tokens.json");
+    const storage = createFileSnapshotStorage(path);
+
+    expect(storage.load()).toBeUndefined();
+    await storage.save('{"version":1}');
+    expect(await readFile(path, "utf8")).toBe('{"version":1}');
+    expect(storage.load()).toBe('{"version":1}');
+  });
+
+  it("throws when the file cannot be read or written", async () => {
+    const storage = createFileSnapshotStorage(join(dir, "missing", "tokens.json"));
+
+    await expect(storage.save("{}")).rejects.toThrow("ENOENT");
+    expect(() => createFileSnapshotStorage(dir).load()).toThrow("EISDIR");
+  });
+});
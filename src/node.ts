@@ -0,0 +1,39 @@
+import { readFileSync } from "node:fs";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { StaticTokenRegistry, type StaticTokenRegistryOptions, type TokenSnapshotStorage } from "./token-registry";
+
+/**
+ * Node.js helpers that use the file system. They are published as
+ * `intents-1click-rule-engine/node` and not re-exported from the main entry point, so the
+ * rest of the package has no Node.js dependencies and can run in browsers and edge runtimes.
+ */
+
+/** Creates a `StaticTokenRegistry` from a JSON file holding a `/v0/tokens` response. */
+export async function loadStaticTokenRegistry(
+  path: string,
+  options?: StaticTokenRegistryOptions
+): Promise<StaticTokenRegistry> {
+  return StaticTokenRegistry.fromJson(await readFile(path, "utf8"), options);
+}
+
+/**
+ * Keeps a `CachedTokenRegistry` snapshot in a file. A missing file counts as no snapshot,
+ * and each save writes a temporary file first so readers never see a partial snapshot.
+ */
+export function createFileSnapshotStorage(path: string): TokenSnapshotStorage {
+  return {
+    load() {
+      try {
+        return readFileSync(path, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+      }
+    },
+    async save(snapshot) {
+      const tempPath = `${path}.tmp`;
+      await writeFile(tempPath, snapshot);
+      await rename(tempPath, path);
+    },
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Compiled form of a matcher value such as `"eth"`, `"*"`, `"!eth"`,
+ * `"nep141:eth-*"` or `"/^USD[CT]$/"`.
+ */
+export type ValuePredicate = (value: string) => boolean;
+
+/** Named sets with every `@name` reference expanded to the referenced set's members. */
+export type ResolvedSets = ReadonlyMap<string, readonly string[]>;
+
+const NO_SETS: ResolvedSets = new Map();
+
+const REGEX_FLAGS = /^[imsu]*$/;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+function isRegexPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith("/") && pattern.lastIndexOf("/") > 0;
+}
+
+function isGlobPattern(pattern: string): boolean {
+  return pattern.includes("*") || pattern.includes("?");
+}
+
+function compileRegex(pattern: string): RegExp {
+  const end = pattern.lastIndexOf("/");
+  const body = pattern.slice(1, end);
+  const flags = pattern.slice(end + 1);
+  if (!REGEX_FLAGS.test(flags)) {
+    throw new Error(`Invalid pattern "${pattern}": unsupported regex flags "${flags}" (allowed: i, m, s, u)`);
+  }
+  try {
+    return new RegExp(body, flags);
+  } catch (error) {
+    throw new Error(`Invalid pattern "${pattern}": ${(error as Error).message}`);
+  }
+}
+
+function compileGlob(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : escapeRegex(char)))
+    .join("");
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Returns true if the value is a plain value compared exactly, rather than a wildcard,
+ * negation, glob, regular expression or set reference.
+ */
+export function isExactValue(pattern: string): boolean {
+  return (
+    pattern !== "*" &&
+    !pattern.startsWith("!") &&
+    !pattern.startsWith("@") &&
+    !isRegexPattern(pattern) &&
+    !isGlobPattern(pattern)
+  );
+}
+
+/**
+ * Expands the `@name` references inside `FeeConfig.sets`, so each set lists only
+ * plain values and patterns. Throws on unknown or circular references.
+ */
+export function resolveSets(sets: Record<string, string[]> | undefined): ResolvedSets {
+  const resolved = new Map<string, string[]>();
+  if (!sets) return resolved;
+
+  const resolve = (name: string, stack: string[]): string[] => {
+    const cached = resolved.get(name);
+    if (cached) return cached;
+    if (stack.includes(name)) {
+      throw new Error(`Circular set reference: ${[...stack, name].map((n) => `@${n}`).join(" -> ")}`);
+    }
+    const members = Object.hasOwn(sets, name) ? sets[name] : undefined;
+    if (!members) {
+      throw new Error(`Unknown set "@${name}"`);
+    }
+    const flattened = members.flatMap((member) =>
+      member.startsWith("@") ? resolve(member.slice(1), [...stack, name]) : [member]
+    );
+    resolved.set(name, flattened);
+    return flattened;
+  };
+
+  for (const name of Object.keys(sets)) {
+    resolve(name, []);
+  }
+  return resolved;
+}
+
+/**
+ * Compiles a single matcher value into a predicate.
+ *
+ * - `"*"` matches any value
+ * - `"/regex/flags"` tests the value against a regular expression (flags `i`, `m`, `s`, `u`)
+ * - Values containing `*` or `?` are globs: `*` matches any run of characters, `?` exactly one
+ * - `"@name"` matches if any member of the named set in `sets` matches
+ * - Anything else is an exact, case-sensitive comparison
+ *
+ * A leading `!` negates any of the above. Throws if a regular expression is invalid
+ * or a set is unknown.
+ */
+export function compilePattern(pattern: string, sets: ResolvedSets = NO_SETS): ValuePredicate {
+  if (pattern === "*") return () => true;
+  if (pattern.startsWith("!")) {
+    const inner = compilePattern(pattern.slice(1), sets);
+    return (value) => !inner(value);
+  }
+  if (pattern.startsWith("@")) {
+    const members = sets.get(pattern.slice(1));
+    if (!members) {
+      throw new Error(`Invalid pattern "${pattern}": unknown set "${pattern.slice(1)}"`);
+    }
+    const predicates = members.map((member) => compilePattern(member, sets));
+    return (value) => predicates.some((predicate) => predicate(value));
+  }
+  if (isRegexPattern(pattern)) {
+    const regex = compileRegex(pattern);
+    return (value) => regex.test(value);
+  }
+  if (isGlobPattern(pattern)) {
+    const regex = compileGlob(pattern);
+    return (value) => regex.test(value);
+  }
+  return (value) => value === pattern;
+}
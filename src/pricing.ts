@@ -0,0 +1,47 @@
+import type { TokenInfo } from "./types";
+
+export const DEFAULT_MAX_PRICE_AGE_MS = 7200000; // 2 hours
+
+/**
+ * Returns the token's USD price if it is known and was updated within `maxAgeMs`
+ * of `now`. Tokens without a price or a parseable `priceUpdatedAt` have no usable price.
+ */
+export function getUsdPrice(
+  token: TokenInfo,
+  now: number = Date.now(),
+  maxAgeMs: number = DEFAULT_MAX_PRICE_AGE_MS
+): number | undefined {
+  if (typeof token.price !== "number" || !Number.isFinite(token.price) || token.price < 0) {
+    return undefined;
+  }
+  if (!token.priceUpdatedAt) return undefined;
+  const updatedAt = new Date(token.priceUpdatedAt).getTime();
+  if (Number.isNaN(updatedAt)) return undefined;
+  if (now - updatedAt > maxAgeMs) return undefined;
+  return token.price;
+}
+
+/**
+ * Converts a base-unit amount to its USD value: `amount / 10^decimals * price`.
+ * The integer and fractional parts are converted separately so large amounts
+ * keep their precision in the integer part.
+ */
+export function getUsdValue(amount: bigint, decimals: number, price: number): number {
+  const scale = 10n ** BigInt(decimals);
+  const whole = Number(amount / scale);
+  const fraction = Number(amount % scale) / Number(scale);
+  return (whole + fraction) * price;
+}
+
+/**
+ * Converts a USD value to base units of a token: `usd / price * 10^decimals`, rounded down.
+ * Returns undefined for a zero price, which cannot express a USD value in the token.
+ */
+export function getAmountForUsd(usd: number, decimals: number, price: number): bigint | undefined {
+  if (price <= 0) return undefined;
+  const units = usd / price;
+  const whole = Math.floor(units);
+  const fraction = units - whole;
+  const scale = 10n ** BigInt(decimals);
+  return BigInt(whole) * scale + BigInt(Math.floor(fraction * Number(scale)));
+}
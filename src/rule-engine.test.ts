@@ -1,6 +1,13 @@
 import { describe, it, expect } from "bun:test";
-import { RuleEngine, calculateFee, calculateAmountAfterFee } from "./rule-engine";
-import type { Fee, FeeConfig, TokenInfo, TokenRegistry } from "./types";
+import {
+  RuleEngine,
+  calculateFee,
+  calculateAmountAfterFee,
+  calculateFeeBreakdown,
+  calculateGrossAmount,
+  getTotalBps,
+} from "./rule-engine";
+import type { Fee, FeeConfig, RoundingMode, TokenInfo, TokenRegistry } from "./types";
 
 // Mock token registry for isolated testing
 function createMockRegistry(tokens: TokenInfo[], fresh = true): TokenRegistry {
@@ -15,10 +22,7 @@ function createMockRegistry(tokens: TokenInfo[], fresh = true): TokenRegistry {
 
 // Helper to get bps from fee (handles both single Fee and Fee[])
 function getBps(fee: Fee | Fee[]): number {
-  if (Array.isArray(fee)) {
-    return fee.reduce((sum, f) => sum + f.bps, 0);
-  }
-  return fee.bps;
+  return getTotalBps(fee);
 }
 
 const validConfig: FeeConfig = {
@@ -143,6 +147,22 @@ describe("RuleEngine", () => {
         })
       ).toThrow("Token registry is not ready. Call ensureReady() or use safeMatch() instead.");
     });
+
+    it("uses the injected clock and at option for time-based rules", () => {
+      const token: TokenInfo = { assetId: "nep141:usdc", blockchain: "eth", symbol: "USDC", decimals: 6 };
+      const config: FeeConfig = {
+        ...validConfig,
+        rules: [{ ...validConfig.rules[0]!, valid_from: "2025-01-01T00:00:00Z" }],
+      };
+      const engine = new RuleEngine(config, {
+        tokenRegistry: createMockRegistry([token]),
+        clock: () => Date.UTC(2024, 11, 31),
+      });
+      const request = { originAsset: "nep141:usdc", destinationAsset: "nep141:usdc" };
+
+      expect(engine.match(request).matched).toBe(false);
+      expect(engine.match(request, { at: Date.UTC(2025, 0, 1) }).matched).toBe(true);
+    });
   });
 
   describe("safeMatch", () => {
@@ -168,6 +188,110 @@ describe("RuleEngine", () => {
       expect(getBps(result.fee)).toBe(20);
     });
   });
+
+  describe("quote", () => {
+    const USDC: TokenInfo = { assetId: "nep141:usdc", blockchain: "eth", symbol: "USDC", decimals: 6 };
+    const USDT: TokenInfo = { assetId: "nep141:usdt", blockchain: "eth", symbol: "USDC", decimals: 6 };
+    const config: FeeConfig = {
+      ...validConfig,
+      rules: [
+        {
+          ...validConfig.rules[0]!,
+          fee: [
+            { type: "bps", bps: 7, recipient: "fees.near" },
+            { type: "bps", bps: 3, recipient: "partner.near" },
+          ],
+        },
+      ],
+    };
+    const request = { originAsset: USDC.assetId, destinationAsset: USDT.assetId, amount: "1234567" };
+
+    it("returns the fee, net amount and recipient shares", () => {
+      const engine = new RuleEngine(config, { tokenRegistry: createMockRegistry([USDC, USDT]) });
+      const quote = engine.quote(request);
+
+      expect(quote.matched).toBe(true);
+      expect(quote.rule?.id).toBe("usdc-swaps");
+      expect(quote.totalBps).toBe(10);
+      expect(quote.amount).toEqual({ amount: "1234567", formatted: "1.234567" });
+      // 1234567 * 10 / 10000 = 1234.567
+      expect(quote.feeAmount).toEqual({ amount: "1234", formatted: "0.001234" });
+      expect(quote.netAmount).toEqual({ amount: "1233333", formatted: "1.233333" });
+      expect(quote.recipients).toEqual([
+        { recipient: "fees.near", amount: "864", formatted: "0.000864" },
+        { recipient: "partner.near", amount: "370", formatted: "0.00037" },
+      ]);
+      expect(quote.originToken).toBe(USDC);
+    });
+
+    it("applies the config's rounding unless overridden", () => {
+      const engine = new RuleEngine(
+        { ...config, rounding: "ceil" },
+        { tokenRegistry: createMockRegistry([USDC, USDT]) }
+      );
+
+      expect(engine.quote(request).feeAmount.amount).toBe("1235");
+      expect(engine.quote(request, { rounding: "floor" }).feeAmount.amount).toBe("1234");
+    });
+
+    it("quotes the default fee for unmatched swaps", () => {
+      const engine = new RuleEngine(config, { tokenRegistry: createMockRegistry([USDC]) });
+      const quote = engine.quote({ ...request, destinationAsset: "unknown-asset" });
+
+      expect(quote.matched).toBe(false);
+      expect(quote.totalBps).toBe(20);
+      expect(quote.feeAmount.amount).toBe("2469");
+      expect(quote.recipients).toEqual([{ recipient: "fees.near", amount: "2469", formatted: "0.002469" }]);
+    });
+
+    it("reports the rate actually charged for capped fees", () => {
+      const capped: FeeConfig = {
+        ...validConfig,
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near", min_amount: "12345" },
+        rules: [],
+      };
+      const engine = new RuleEngine(capped, { tokenRegistry: createMockRegistry([USDC, USDT]) });
+
+      // 12345 / 1234567 of the amount
+      expect(engine.quote(request).totalBps).toBeCloseTo(99.9946, 4);
+    });
+
+    it("throws without an amount or a known origin token", () => {
+      const engine = new RuleEngine(config, { tokenRegistry: createMockRegistry([USDC, USDT]) });
+
+      expect(() => engine.quote({ originAsset: USDC.assetId, destinationAsset: USDT.assetId })).toThrow(
+        "Cannot quote without an amount"
+      );
+      expect(() => engine.quote({ ...request, originAsset: "unknown-asset" })).toThrow(
+        'Cannot quote unknown origin asset "unknown-asset"'
+      );
+    });
+  });
+
+  describe("safeQuote", () => {
+    it("ensures ready before quoting", async () => {
+      let fresh = false;
+      const token: TokenInfo = { assetId: "nep141:usdc", blockchain: "eth", symbol: "USDC", decimals: 6 };
+      const registry: TokenRegistry = {
+        getToken: (assetId) => (assetId === token.assetId ? token : undefined),
+        isFresh: () => fresh,
+        ensureFresh: async () => {
+          fresh = true;
+        },
+        size: 1,
+      };
+      const engine = new RuleEngine(validConfig, { tokenRegistry: registry });
+
+      const quote = await engine.safeQuote({
+        originAsset: token.assetId,
+        destinationAsset: token.assetId,
+        amount: "1000000",
+      });
+
+      expect(fresh).toBe(true);
+      expect(quote.feeAmount).toEqual({ amount: "1000", formatted: "0.001" });
+    });
+  });
 });
 
 describe("calculateFee", () => {
@@ -291,3 +415,454 @@ describe("calculateAmountAfterFee input validation", () => {
     expect(() => calculateAmountAfterFee("1000", -1)).toThrow("must be non-negative");
   });
 });
+
+describe("fee caps", () => {
+  const fee: Fee = { type: "bps", bps: 20, recipient: "fees.near", min_amount: "500", max_amount: "100000" };
+
+  it("applies min_amount to small swaps", () => {
+    // 100000 * 20 / 10000 = 200 -> 500
+    expect(calculateFee("100000", fee)).toBe("500");
+  });
+
+  it("applies max_amount to large swaps", () => {
+    // 1000000000 * 20 / 10000 = 2000000 -> 100000
+    expect(calculateFee("1000000000", fee)).toBe("100000");
+  });
+
+  it("leaves fees within the caps unchanged", () => {
+    expect(calculateFee("1000000", fee)).toBe("2000");
+  });
+
+  it("caps each recipient separately and sums the results", () => {
+    const fees: Fee[] = [fee, { type: "bps", bps: 10, recipient: "partner.near", max_amount: "50" }];
+
+    // 500 (min) + 10 (uncapped); then 100000 (max) + 50 (max)
+    expect(calculateFee("10000", fees)).toBe("510");
+    expect(calculateFee("1000000000", fees)).toBe("100050");
+  });
+
+  it("never exceeds the swap amount", () => {
+    expect(calculateFee("300", fee)).toBe("300");
+    expect(calculateAmountAfterFee("300", fee)).toBe("0");
+  });
+
+  it("converts USD caps with the token price", () => {
+    const token: TokenInfo = {
+      assetId: "nep141:usdc",
+      blockchain: "eth",
+      symbol: "USDC",
+      decimals: 6,
+      price: 0.5,
+      priceUpdatedAt: new Date().toISOString(),
+    };
+    const usdFee: Fee = { type: "bps", bps: 20, recipient: "fees.near", min_usd: 1, max_usd: 10 };
+
+    // $1 at $0.50 = 2 tokens = 2000000 base units
+    expect(calculateFee("10000000", usdFee, { token })).toBe("2000000");
+    // 10000000000 * 20 / 10000 = 20000000 -> $10 = 20000000
+    expect(calculateFee("100000000000", usdFee, { token })).toBe("20000000");
+    expect(calculateAmountAfterFee("100000000000", usdFee, { token })).toBe("99980000000");
+  });
+
+  it("uses the stricter of amount and USD caps", () => {
+    const token: TokenInfo = {
+      assetId: "nep141:usdc",
+      blockchain: "eth",
+      symbol: "USDC",
+      decimals: 6,
+      price: 1,
+      priceUpdatedAt: new Date().toISOString(),
+    };
+    const mixed: Fee = { type: "bps", bps: 20, recipient: "fees.near", max_amount: "5000000", max_usd: 3 };
+
+    expect(calculateFee("100000000000", mixed, { token })).toBe("3000000");
+  });
+
+  it("throws for USD caps without a token or a current price", () => {
+    const usdFee: Fee = { type: "bps", bps: 20, recipient: "fees.near", min_usd: 1 };
+    const stale: TokenInfo = {
+      assetId: "nep141:usdc",
+      blockchain: "eth",
+      symbol: "USDC",
+      decimals: 6,
+      price: 1,
+      priceUpdatedAt: new Date(Date.now() - 3 * 3600000).toISOString(),
+    };
+
+    expect(() => calculateFee("1000000", usdFee)).toThrow(
+      "USD fee caps need the fee-bearing token: pass options.token"
+    );
+    expect(() => calculateFee("1000000", usdFee, { token: stale })).toThrow(
+      'Cannot apply USD fee caps: "nep141:usdc" has no current price'
+    );
+    expect(() => calculateFee("1000000", { ...usdFee, min_usd: undefined, max_usd: 5 }, { token: stale })).toThrow(
+      "has no current price"
+    );
+  });
+
+  it("throws on invalid caps", () => {
+    expect(() => calculateFee("1000", { ...fee, min_amount: "1.5" })).toThrow(
+      'Invalid min_amount: "1.5" is not a non-negative integer string'
+    );
+  });
+});
+
+describe("fee types", () => {
+  const USDC: TokenInfo = {
+    assetId: "nep141:usdc",
+    blockchain: "eth",
+    symbol: "USDC",
+    decimals: 6,
+    price: 1,
+    priceUpdatedAt: new Date().toISOString(),
+  };
+  const WETH: TokenInfo = {
+    assetId: "nep141:weth",
+    blockchain: "eth",
+    symbol: "WETH",
+    decimals: 18,
+    price: 2000,
+    priceUpdatedAt: new Date().toISOString(),
+  };
+
+  const tiers = [
+    { up_to: "1000000000", bps: 30 }, // up to 1000 USDC
+    { up_to: "10000000000", bps: 20 }, // up to 10000 USDC
+    { bps: 10 },
+  ];
+  const flat: Fee = { type: "tiered", method: "flat", tiers, recipient: "fees.near" };
+  const marginal: Fee = { type: "tiered", method: "marginal", tiers, recipient: "fees.near" };
+
+  describe("tiered fees", () => {
+    it("charges the whole amount at its tier's rate with the flat method", () => {
+      expect(calculateFee("1000000000", flat)).toBe("3000000");
+      expect(calculateFee("5000000000", flat)).toBe("10000000");
+      expect(calculateFee("20000000000", flat)).toBe("20000000");
+    });
+
+    it("charges each part at its tier's rate with the marginal method", () => {
+      expect(calculateFee("1000000000", marginal)).toBe("3000000");
+      // 1000 * 0.30% + 4000 * 0.20% = 3 + 8 USDC
+      expect(calculateFee("5000000000", marginal)).toBe("11000000");
+      // 3 + 18 + 10000 * 0.10% = 31 USDC
+      expect(calculateFee("20000000000", marginal)).toBe("31000000");
+    });
+
+    it("applies caps after the tier calculation", () => {
+      expect(calculateFee("20000000000", { ...marginal, max_amount: "25000000" })).toBe("25000000");
+    });
+  });
+
+  describe("fixed fees", () => {
+    const fixed: Fee = { type: "fixed", amount: "500000", asset: "nep141:usdc", recipient: "fees.near" };
+
+    it("charges the fixed amount in the fee-bearing token", () => {
+      expect(calculateFee("1000000000", fixed, { token: USDC })).toBe("500000");
+      expect(calculateAmountAfterFee("1000000000", fixed, { token: USDC })).toBe("999500000");
+    });
+
+    it("combines with other fee types", () => {
+      const fees: Fee[] = [fixed, { type: "bps", bps: 10, recipient: "partner.near" }];
+      expect(calculateFee("1000000000", fees, { token: USDC })).toBe("1500000");
+    });
+
+    it("converts fixed fees in another asset through USD prices", () => {
+      const tokenRegistry: TokenRegistry = createMockRegistry([USDC, WETH]);
+      // 0.5 USDC at $1 = $0.50 = 0.00025 WETH at $2000
+      expect(calculateFee("1000000000000000000", fixed, { token: WETH, tokenRegistry })).toBe("250000000000000");
+    });
+
+    it("throws when the fee cannot be expressed in the fee-bearing token", () => {
+      expect(() => calculateFee("1000000000", fixed)).toThrow("Fixed fees need the fee-bearing token");
+      expect(() => calculateFee("1000000000000000000", fixed, { token: WETH })).toThrow(
+        'Cannot convert fixed fee in "nep141:usdc" to "nep141:weth"'
+      );
+    });
+  });
+
+  describe("getTotalBps", () => {
+    it("sums bps fees without an amount", () => {
+      expect(
+        getTotalBps([
+          { type: "bps", bps: 14, recipient: "fees.near" },
+          { type: "bps", bps: 6, recipient: "partner.near" },
+        ])
+      ).toBe(20);
+    });
+
+    it("returns the effective rate of tiered fees for an amount", () => {
+      expect(getTotalBps(flat, "5000000000")).toBe(20);
+      expect(getTotalBps(marginal, "5000000000")).toBe(22);
+      expect(getTotalBps([marginal, { type: "bps", bps: 5, recipient: "partner.near" }], 5000000000n)).toBe(27);
+    });
+
+    it("refuses fees without a bps rate", () => {
+      expect(() => getTotalBps(flat)).toThrow("Cannot compute bps for a tiered fee without an amount");
+      expect(() =>
+        getTotalBps({ type: "fixed", amount: "1", asset: "nep141:usdc", recipient: "fees.near" }, "1000")
+      ).toThrow("Cannot compute bps for a fixed fee; use calculateFee instead");
+    });
+  });
+});
+
+describe("calculateFeeBreakdown", () => {
+  const split: Fee[] = [
+    { type: "bps", bps: 7, recipient: "fees.near" },
+    { type: "bps", bps: 8, recipient: "partner.near" },
+    { type: "bps", bps: 5, recipient: "referrer.near" },
+  ];
+
+  it("splits the fee between recipients", () => {
+    expect(calculateFeeBreakdown("1000000", split)).toEqual({
+      total: "2000",
+      shares: [
+        { recipient: "fees.near", amount: "700" },
+        { recipient: "partner.near", amount: "800" },
+        { recipient: "referrer.near", amount: "500" },
+      ],
+    });
+  });
+
+  it("matches calculateFee with the total bps", () => {
+    // 1999 * 20 / 10000 = 3.998, but the floored shares only add up to 1 + 1 + 0
+    const breakdown = calculateFeeBreakdown("1999", split);
+
+    expect(breakdown.total).toBe(calculateFee("1999", getTotalBps(split)));
+    expect(calculateFee("1999", split)).toBe("3");
+    expect(breakdown.shares.reduce((sum, s) => sum + BigInt(s.amount), 0n)).toBe(3n);
+  });
+
+  it("gives the remainder to the largest share by default", () => {
+    expect(calculateFeeBreakdown("1999", split).shares.map((s) => s.amount)).toEqual(["1", "2", "0"]);
+  });
+
+  it("gives the remainder to the first recipient", () => {
+    const { shares } = calculateFeeBreakdown("1999", split, { remainder: "first" });
+    expect(shares.map((s) => s.amount)).toEqual(["2", "1", "0"]);
+  });
+
+  it("gives the remainder to a designated recipient", () => {
+    const { shares } = calculateFeeBreakdown("1999", split, { remainder: { recipient: "referrer.near" } });
+    expect(shares.map((s) => s.amount)).toEqual(["1", "1", "1"]);
+  });
+
+  it("throws for a designated recipient without a share", () => {
+    expect(() => calculateFeeBreakdown("1999", split, { remainder: { recipient: "unknown.near" } })).toThrow(
+      'Invalid remainder recipient: "unknown.near"'
+    );
+  });
+
+  it("merges entries with the same recipient", () => {
+    const fees: Fee[] = [...split, { type: "bps", bps: 3, recipient: "fees.near" }];
+    expect(calculateFeeBreakdown("1000000", fees).shares).toEqual([
+      { recipient: "fees.near", amount: "1000" },
+      { recipient: "partner.near", amount: "800" },
+      { recipient: "referrer.near", amount: "500" },
+    ]);
+  });
+
+  it("applies caps per entry", () => {
+    const fees: Fee[] = [
+      { type: "bps", bps: 10, recipient: "fees.near", min_amount: "50" },
+      { type: "bps", bps: 10, recipient: "partner.near" },
+    ];
+    expect(calculateFeeBreakdown("10000", fees).shares.map((s) => s.amount)).toEqual(["50", "10"]);
+  });
+
+  it("takes the excess from the last recipients when the fee is cut to the amount", () => {
+    const fees: Fee[] = [
+      { type: "bps", bps: 10, recipient: "fees.near", min_amount: "80" },
+      { type: "bps", bps: 10, recipient: "partner.near", min_amount: "50" },
+    ];
+    expect(calculateFeeBreakdown("100", fees)).toEqual({
+      total: "100",
+      shares: [
+        { recipient: "fees.near", amount: "80" },
+        { recipient: "partner.near", amount: "20" },
+      ],
+    });
+  });
+
+  it("accepts a single fee", () => {
+    expect(calculateFeeBreakdown("1000000", { type: "bps", bps: 20, recipient: "fees.near" })).toEqual({
+      total: "2000",
+      shares: [{ recipient: "fees.near", amount: "2000" }],
+    });
+  });
+});
+
+describe("rounding modes", () => {
+  // At 10 bps: 2500 -> 2.5, 3500 -> 3.5, 2600 -> 2.6
+  it("rounds down by default", () => {
+    expect(calculateFee("2600", 10)).toBe("2");
+    expect(calculateFee("2600", 10, { rounding: "floor" })).toBe("2");
+  });
+
+  it("rounds up with ceil", () => {
+    expect(calculateFee("2001", 10, { rounding: "ceil" })).toBe("3");
+    expect(calculateFee("2000", 10, { rounding: "ceil" })).toBe("2");
+  });
+
+  it("rounds halves up with half-up", () => {
+    expect(calculateFee("2500", 10, { rounding: "half-up" })).toBe("3");
+    expect(calculateFee("2400", 10, { rounding: "half-up" })).toBe("2");
+  });
+
+  it("rounds halves to even with half-even", () => {
+    expect(calculateFee("2500", 10, { rounding: "half-even" })).toBe("2");
+    expect(calculateFee("3500", 10, { rounding: "half-even" })).toBe("4");
+    expect(calculateFee("2600", 10, { rounding: "half-even" })).toBe("3");
+  });
+
+  it("rounds the summed entries of multi-recipient fees", () => {
+    const fees: Fee[] = [
+      { type: "bps", bps: 5, recipient: "fees.near" },
+      { type: "bps", bps: 5, recipient: "partner.near" },
+    ];
+    // 1300 * 5 / 10000 = 0.65 per entry, 1.3 in total
+    expect(calculateFee("1300", fees, { rounding: "half-up" })).toBe("1");
+    expect(calculateFee("1300", fees, { rounding: "ceil" })).toBe("2");
+  });
+
+  it("keeps calculateAmountAfterFee consistent with the fee", () => {
+    expect(calculateAmountAfterFee("2500", 10, { rounding: "half-up" })).toBe("2497");
+    expect(calculateAmountAfterFee("2500", 10, { rounding: "floor" })).toBe("2498");
+  });
+
+  it("makes breakdown shares add up to the rounded total", () => {
+    const fees: Fee[] = [
+      { type: "bps", bps: 5, recipient: "fees.near" },
+      { type: "bps", bps: 5, recipient: "partner.near" },
+    ];
+    // Both shares round down to 0, so the remainder policy assigns the whole total
+    expect(calculateFeeBreakdown("1300", fees, { rounding: "ceil" })).toEqual({
+      total: "2",
+      shares: [
+        { recipient: "fees.near", amount: "2" },
+        { recipient: "partner.near", amount: "0" },
+      ],
+    });
+  });
+
+  it("throws for unknown rounding modes", () => {
+    expect(() => calculateFee("2500", 10, { rounding: "round" as never })).toThrow('Invalid rounding mode "round"');
+  });
+
+  it("uses the config's rounding in RuleEngine calculations", () => {
+    const engine = new RuleEngine({ ...validConfig, rounding: "ceil" }, { tokenRegistry: createMockRegistry([]) });
+
+    expect(engine.calculateFee("2001", 10)).toBe("3");
+    expect(engine.calculateAmountAfterFee("2001", 10)).toBe("1998");
+    expect(engine.calculateFeeBreakdown("2001", { type: "bps", bps: 10, recipient: "fees.near" }).total).toBe("3");
+    expect(engine.calculateFee("2001", 10, { rounding: "floor" })).toBe("2");
+  });
+});
+
+describe("calculateGrossAmount", () => {
+  it("inverts a bps fee", () => {
+    // 1002004 * 20 / 10000 = 2004.008 -> 2004, leaving exactly 1000000
+    expect(calculateGrossAmount("1000000", 20)).toBe("1002004");
+    expect(calculateAmountAfterFee("1002004", 20)).toBe("1000000");
+    expect(calculateAmountAfterFee("1002003", 20)).toBe("999999");
+  });
+
+  it("returns the net amount when there is no fee", () => {
+    expect(calculateGrossAmount("1000000", 0)).toBe("1000000");
+    expect(calculateGrossAmount("0", 20)).toBe("0");
+  });
+
+  it("takes the rounding mode into account", () => {
+    expect(calculateGrossAmount("1000000", 20, { rounding: "ceil" })).toBe("1002005");
+    expect(calculateAmountAfterFee("1002005", 20, { rounding: "ceil" })).toBe("1000000");
+  });
+
+  it("covers multi-recipient fees", () => {
+    const fees: Fee[] = [
+      { type: "bps", bps: 14, recipient: "fees.near" },
+      { type: "bps", bps: 6, recipient: "partner.near", min_amount: "5000" },
+    ];
+    // The partner's minimum applies: 1006408 * 14 / 10000 = 1408.97, plus 5000 -> 6408
+    expect(calculateGrossAmount("1000000", fees)).toBe("1006408");
+    expect(calculateAmountAfterFee("1006408", fees)).toBe("1000000");
+    expect(calculateAmountAfterFee("1006407", fees)).toBe("999999");
+  });
+
+  it("handles flat tiers whose boundary lowers the net amount", () => {
+    const fee: Fee = {
+      type: "tiered",
+      method: "flat",
+      tiers: [
+        { up_to: "10000", bps: 0 },
+        { bps: 5000 },
+      ],
+      recipient: "fees.near",
+    };
+    // 10000 is free, but every amount from 10001 to 20000 leaves at most 10000
+    expect(calculateGrossAmount("10000", fee)).toBe("10000");
+    expect(calculateGrossAmount("10001", fee)).toBe("20001");
+  });
+
+  it("throws when no amount leaves the net amount", () => {
+    expect(() => calculateGrossAmount("1", 10000)).toThrow("Cannot gross up 1");
+  });
+
+  describe("properties", () => {
+    // Small deterministic PRNG so failures are reproducible
+    function random(seed: number): () => number {
+      return () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+    }
+
+    const roundings: RoundingMode[] = ["floor", "ceil", "half-up", "half-even"];
+    const fees: (number | Fee | Fee[])[] = [
+      1,
+      20,
+      9999,
+      [
+        { type: "bps", bps: 7, recipient: "fees.near" },
+        { type: "bps", bps: 3, recipient: "partner.near" },
+      ],
+      { type: "bps", bps: 30, recipient: "fees.near", min_amount: "100", max_amount: "5000" },
+      {
+        type: "tiered",
+        method: "marginal",
+        tiers: [{ up_to: "100000", bps: 50 }, { up_to: "1000000", bps: 20 }, { bps: 5 }],
+        recipient: "fees.near",
+      },
+      {
+        type: "tiered",
+        method: "flat",
+        tiers: [{ up_to: "100000", bps: 50 }, { up_to: "1000000", bps: 20 }, { bps: 5 }],
+        recipient: "fees.near",
+      },
+    ];
+
+    it("grosses up to an amount that leaves at least the net amount", () => {
+      const next = random(42);
+      for (let i = 0; i < 300; i++) {
+        const net = BigInt(Math.floor(next() * 10 ** (1 + Math.floor(next() * 9))));
+        const fee = fees[i % fees.length]!;
+        const rounding = roundings[Math.floor(next() * roundings.length)]!;
+
+        const gross = BigInt(calculateGrossAmount(net, fee, { rounding }));
+
+        expect(BigInt(calculateAmountAfterFee(gross, fee, { rounding }))).toBeGreaterThanOrEqual(net);
+      }
+    });
+
+    it("grosses up to the smallest such amount", () => {
+      const next = random(7);
+      for (let i = 0; i < 300; i++) {
+        const net = BigInt(1 + Math.floor(next() * 10 ** (1 + Math.floor(next() * 9))));
+        const fee = fees[i % fees.length]!;
+        const rounding = roundings[Math.floor(next() * roundings.length)]!;
+
+        const gross = BigInt(calculateGrossAmount(net, fee, { rounding }));
+
+        expect(BigInt(calculateAmountAfterFee(gross - 1n, fee, { rounding }))).toBeLessThan(net);
+      }
+    });
+  });
+});
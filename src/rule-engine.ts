@@ -1,16 +1,44 @@
-import type { Fee, FeeConfig, SwapRequest, MatchResult, TokenRegistry } from "./types";
+import type {
+  Fee,
+  FeeCaps,
+  FeeConfig,
+  FixedFee,
+  SwapRequest,
+  MatchOptions,
+  MatchResult,
+  AffectedRule,
+  ResolutionStrategy,
+  RoundingMode,
+  Rule,
+  TokenInfo,
+  TokenRegistry,
+  TokenRegistryDiff,
+} from "./types";
+import { formatTokenAmount, parseTokenAmount } from "./amounts";
 import { RuleMatcher } from "./matcher";
+import { divideRounded, getEffectiveBps, getTieredFeeNumerator } from "./fees";
+import { DEFAULT_MAX_PRICE_AGE_MS, getAmountForUsd, getUsdPrice, getUsdValue } from "./pricing";
 import { sharedTokenRegistry } from "./token-registry";
 import { validateConfig } from "./validator";
 
 const BPS_DIVISOR = 10000n;
 const MAX_BPS = 10000; // 100% fee cap
 
-export function getTotalBps(fee: Fee | Fee[]): number {
-  if (Array.isArray(fee)) {
-    return fee.reduce((sum, f) => sum + f.bps, 0);
+/**
+ * Total bps of a fee. Tiered fees need `amount` and contribute their effective rate
+ * for it, which may be fractional for `marginal` tiers. Throws for fixed fees, which
+ * have no bps; use `calculateFee` for those.
+ */
+export function getTotalBps(fee: Fee | Fee[], amount?: string | bigint): number {
+  const amountBigInt = amount === undefined ? undefined : parseAmount(amount);
+  const total = getEffectiveBps(fee, amountBigInt);
+  if (total !== undefined) return total;
+
+  const entries = Array.isArray(fee) ? fee : [fee];
+  if (entries.some((f) => f.type === "fixed")) {
+    throw new Error("Cannot compute bps for a fixed fee; use calculateFee instead");
   }
-  return fee.bps;
+  throw new Error("Cannot compute bps for a tiered fee without an amount");
 }
 
 function parseAmount(amount: string | bigint): bigint {
@@ -48,18 +76,366 @@ function validateBps(bps: number): void {
   }
 }
 
-export function calculateFee(amount: string | bigint, bps: number): string {
+export interface FeeCalculationOptions {
+  /**
+   * The fee-bearing (origin) token. Needed to convert `min_usd`/`max_usd` caps to base
+   * units; without it, or without a current price, fees with USD caps throw.
+   */
+  token?: TokenInfo;
+  /** Current time for the price staleness check. Defaults to `Date.now()`. */
+  now?: number;
+  /** Maximum price age for USD caps and fixed fee conversion. Defaults to 2 hours. */
+  maxPriceAgeMs?: number;
+  /**
+   * Resolves the asset of a `fixed` fee that is not denominated in `token`, so the
+   * amount can be converted to `token` through both tokens' USD prices.
+   */
+  tokenRegistry?: TokenRegistry;
+  /** How the total fee is rounded to whole base units. Defaults to `"floor"`. */
+  rounding?: RoundingMode;
+}
+
+function parseFeeBound(value: string, field: string): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field}: "${value}" is not a non-negative integer string`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Effective fee bounds in base units: the higher of `min_amount` and `min_usd`,
+ * and the lower of `max_amount` and `max_usd`. Throws if USD caps are set but the
+ * token or its current price is missing.
+ */
+function getFeeBounds(fee: FeeCaps, options?: FeeCalculationOptions): { min?: bigint; max?: bigint } {
+  let min = fee.min_amount !== undefined ? parseFeeBound(fee.min_amount, "min_amount") : undefined;
+  let max = fee.max_amount !== undefined ? parseFeeBound(fee.max_amount, "max_amount") : undefined;
+
+  if (fee.min_usd !== undefined || fee.max_usd !== undefined) {
+    const token = options?.token;
+    if (!token) {
+      throw new Error("USD fee caps need the fee-bearing token: pass options.token");
+    }
+    const price = getPrice(token, options);
+    if (price === undefined) {
+      throw new Error(`Cannot apply USD fee caps: "${token.assetId}" has no current price`);
+    }
+    const minUsd = fee.min_usd !== undefined ? getAmountForUsd(fee.min_usd, token.decimals, price) : undefined;
+    const maxUsd = fee.max_usd !== undefined ? getAmountForUsd(fee.max_usd, token.decimals, price) : undefined;
+    if (minUsd !== undefined && (min === undefined || minUsd > min)) min = minUsd;
+    if (maxUsd !== undefined && (max === undefined || maxUsd < max)) max = maxUsd;
+  }
+
+  return { min, max };
+}
+
+function getPrice(token: TokenInfo, options: FeeCalculationOptions): number | undefined {
+  return getUsdPrice(token, options.now ?? Date.now(), options.maxPriceAgeMs ?? DEFAULT_MAX_PRICE_AGE_MS);
+}
+
+/** Converts a fixed fee to base units of the fee-bearing token. */
+function calculateFixedFee(fee: FixedFee, options?: FeeCalculationOptions): bigint {
+  const amount = parseFeeBound(fee.amount, "amount");
+  const token = options?.token;
+  if (!token) {
+    throw new Error("Fixed fees need the fee-bearing token: pass options.token");
+  }
+  if (fee.asset === token.assetId) return amount;
+
+  const feeToken = options.tokenRegistry?.getToken(fee.asset);
+  const feePrice = feeToken ? getPrice(feeToken, options) : undefined;
+  const tokenPrice = getPrice(token, options);
+  const converted =
+    feeToken && feePrice !== undefined && tokenPrice !== undefined
+      ? getAmountForUsd(getUsdValue(amount, feeToken.decimals, feePrice), token.decimals, tokenPrice)
+      : undefined;
+  if (converted === undefined) {
+    throw new Error(
+      `Cannot convert fixed fee in "${fee.asset}" to "${token.assetId}": both tokens need a current price (pass options.tokenRegistry)`
+    );
+  }
+  return converted;
+}
+
+/**
+ * Fee of one entry scaled by `BPS_DIVISOR`, so that the fractional parts of several
+ * entries add up before the total is rounded down.
+ */
+function calculateFeeEntry(amount: bigint, fee: Fee, options?: FeeCalculationOptions): bigint {
+  if (fee.type === "fixed") {
+    return calculateFixedFee(fee, options) * BPS_DIVISOR;
+  }
+
+  let result: bigint;
+  if (fee.type === "tiered") {
+    if (!Array.isArray(fee.tiers) || fee.tiers.length === 0) {
+      throw new Error("Invalid tiered fee: tiers must be a non-empty array");
+    }
+    fee.tiers.forEach((tier) => validateBps(tier.bps));
+    result = getTieredFeeNumerator(fee, amount);
+  } else if (fee.type === "bps") {
+    validateBps(fee.bps);
+    result = amount * BigInt(fee.bps);
+  } else {
+    throw new Error(`Invalid fee type: "${(fee as { type: unknown }).type}"`);
+  }
+
+  const { min, max } = getFeeBounds(fee, options);
+  if (min !== undefined && result < min * BPS_DIVISOR) result = min * BPS_DIVISOR;
+  if (max !== undefined && result > max * BPS_DIVISOR) result = max * BPS_DIVISOR;
+  return result;
+}
+
+function calculateTotalFee(amount: bigint, scaledFees: bigint[], rounding?: RoundingMode): bigint {
+  const total = divideRounded(
+    scaledFees.reduce((sum, f) => sum + f, 0n),
+    BPS_DIVISOR,
+    rounding
+  );
+  return total > amount ? amount : total;
+}
+
+/**
+ * Calculates the fee for `amount` (base units). `fee` is either plain bps or one or more
+ * `Fee` entries of any type. The `min_amount`/`max_amount` (and `min_usd`/`max_usd`, see
+ * `FeeCalculationOptions`) of bps and tiered entries clamp each entry's fee. Fixed entries
+ * need `options.token`. Entries are summed before rounding down, so several bps entries
+ * give the same fee as their total bps. The total is rounded with `options.rounding`
+ * (down by default) and never exceeds `amount`.
+ */
+export function calculateFee(
+  amount: string | bigint,
+  fee: number | Fee | Fee[],
+  options?: FeeCalculationOptions
+): string {
+  return calculateFeeAmount(parseAmount(amount), fee, options).toString();
+}
+
+function calculateFeeAmount(amount: bigint, fee: number | Fee | Fee[], options?: FeeCalculationOptions): bigint {
+  if (typeof fee === "number") {
+    validateBps(fee);
+    return calculateTotalFee(amount, [amount * BigInt(fee)], options?.rounding);
+  }
+  const fees = Array.isArray(fee) ? fee : [fee];
+  const scaled = fees.map((f) => calculateFeeEntry(amount, f, options));
+  return calculateTotalFee(amount, scaled, options?.rounding);
+}
+
+/** `amount` minus `calculateFee(amount, fee, options)`, with the same rounding. */
+export function calculateAmountAfterFee(
+  amount: string | bigint,
+  fee: number | Fee | Fee[],
+  options?: FeeCalculationOptions
+): string {
   const amountBigInt = parseAmount(amount);
-  validateBps(bps);
-  const fee = (amountBigInt * BigInt(bps)) / BPS_DIVISOR;
-  return fee.toString();
+  const feeAmount = calculateFeeAmount(amountBigInt, fee, options);
+  return (amountBigInt - feeAmount).toString();
+}
+
+/**
+ * Start of each range of amounts in which the net amount grows with the gross amount.
+ * Only `flat` tiered fees break monotonicity: moving into a higher tier re-prices the
+ * whole amount, so the net amount can drop at a tier boundary.
+ */
+function getMonotonicRangeStarts(fee: number | Fee | Fee[]): bigint[] {
+  const starts = new Set<bigint>([0n]);
+  if (typeof fee !== "number") {
+    for (const entry of Array.isArray(fee) ? fee : [fee]) {
+      if (entry.type !== "tiered" || entry.method !== "flat") continue;
+      for (const tier of entry.tiers) {
+        if (tier.up_to !== undefined) starts.add(parseFeeBound(tier.up_to, "up_to") + 1n);
+      }
+    }
+  }
+  return [...starts].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/** Limit on doublings when looking for an upper bound, i.e. a gross amount up to `net * 2^256`. */
+const MAX_GROSS_UP_DOUBLINGS = 256;
+
+/**
+ * Inverse of `calculateAmountAfterFee` for exact-output swaps: the smallest gross amount
+ * whose amount after fee (with the same `fee` and `options`, including rounding) is at
+ * least `net`. Throws if no amount leaves `net`, e.g. for a 100% fee.
+ */
+export function calculateGrossAmount(
+  net: string | bigint,
+  fee: number | Fee | Fee[],
+  options?: FeeCalculationOptions
+): string {
+  const netBigInt = parseAmount(net);
+  const leavesNet = (gross: bigint) => gross - calculateFeeAmount(gross, fee, options) >= netBigInt;
+  if (leavesNet(netBigInt)) return netBigInt.toString();
+
+  const starts = getMonotonicRangeStarts(fee);
+  for (let i = 0; i < starts.length; i++) {
+    // The gross amount is at least net, so earlier ranges cannot contain it
+    const next = starts[i + 1];
+    if (next !== undefined && next <= netBigInt) continue;
+    let low = starts[i]! > netBigInt ? starts[i]! : netBigInt;
+
+    let high: bigint;
+    if (next !== undefined) {
+      high = next - 1n;
+      if (!leavesNet(high)) continue;
+    } else {
+      high = low > 0n ? low : 1n;
+      let doublings = 0;
+      while (!leavesNet(high)) {
+        if (++doublings > MAX_GROSS_UP_DOUBLINGS) {
+          throw new Error(`Cannot gross up ${netBigInt}: no amount leaves that much after the fee`);
+        }
+        low = high + 1n;
+        high *= 2n;
+      }
+    }
+
+    // Smallest amount in [low, high] that leaves net; high always does
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      if (leavesNet(mid)) {
+        high = mid;
+      } else {
+        low = mid + 1n;
+      }
+    }
+    return high.toString();
+  }
+
+  throw new Error(`Cannot gross up ${netBigInt}: no amount leaves that much after the fee`);
+}
+
+/**
+ * Who receives the base units lost when each recipient's share is rounded down:
+ * - `"largest"`: the recipient with the largest share (the first one on ties)
+ * - `"first"`: the first recipient in the fee list
+ * - `{ recipient }`: the given recipient, which must be in the fee list
+ */
+export type RemainderPolicy = "largest" | "first" | { recipient: string };
+
+export interface FeeBreakdownOptions extends FeeCalculationOptions {
+  /** Defaults to `"largest"`. */
+  remainder?: RemainderPolicy;
+}
+
+export interface FeeShare {
+  recipient: string;
+  amount: string;
+}
+
+export interface FeeBreakdown {
+  /** Same as `calculateFee(amount, fee, options)`. */
+  total: string;
+  /** One share per recipient, in order of first appearance; sums exactly to `total`. */
+  shares: FeeShare[];
+}
+
+function getRemainderIndex(recipients: string[], scaled: bigint[], policy: RemainderPolicy): number {
+  if (policy === "first") return 0;
+  if (policy === "largest") {
+    let largest = 0;
+    scaled.forEach((value, i) => {
+      if (value > scaled[largest]!) largest = i;
+    });
+    return largest;
+  }
+  if (typeof policy === "object" && policy !== null && typeof policy.recipient === "string") {
+    const index = recipients.indexOf(policy.recipient);
+    if (index === -1) {
+      throw new Error(`Invalid remainder recipient: "${policy.recipient}" does not receive a share of this fee`);
+    }
+    return index;
+  }
+  throw new Error(`Invalid remainder policy: ${JSON.stringify(policy)}`);
 }
 
-export function calculateAmountAfterFee(amount: string | bigint, bps: number): string {
+/**
+ * Splits the fee for `amount` between its recipients. Entries with the same recipient
+ * are merged. The total is rounded with `options.rounding`; each share is rounded down
+ * and the remainder goes to one recipient chosen by `options.remainder`, so the shares
+ * always sum to the total fee. When the total is
+ * cut to `amount`, the excess is taken from the last recipients first.
+ */
+export function calculateFeeBreakdown(
+  amount: string | bigint,
+  fee: Fee | Fee[],
+  options?: FeeBreakdownOptions
+): FeeBreakdown {
   const amountBigInt = parseAmount(amount);
-  validateBps(bps);
-  const fee = BigInt(calculateFee(amountBigInt, bps));
-  return (amountBigInt - fee).toString();
+  const fees = Array.isArray(fee) ? fee : [fee];
+  if (fees.length === 0) {
+    throw new Error("Invalid fee: expected at least one fee entry");
+  }
+
+  const recipients: string[] = [];
+  const scaled: bigint[] = [];
+  for (const entry of fees) {
+    const value = calculateFeeEntry(amountBigInt, entry, options);
+    const index = recipients.indexOf(entry.recipient);
+    if (index === -1) {
+      recipients.push(entry.recipient);
+      scaled.push(value);
+    } else {
+      scaled[index]! += value;
+    }
+  }
+
+  const total = calculateTotalFee(amountBigInt, scaled, options?.rounding);
+  const shares = scaled.map((value) => value / BPS_DIVISOR);
+  let remainder = total - shares.reduce((sum, share) => sum + share, 0n);
+
+  if (remainder > 0n) {
+    shares[getRemainderIndex(recipients, scaled, options?.remainder ?? "largest")]! += remainder;
+  }
+  for (let i = shares.length - 1; remainder < 0n && i >= 0; i--) {
+    const cut = shares[i]! < -remainder ? shares[i]! : -remainder;
+    shares[i]! -= cut;
+    remainder += cut;
+  }
+
+  return {
+    total: total.toString(),
+    shares: recipients.map((recipient, i) => ({ recipient, amount: shares[i]!.toString() })),
+  };
+}
+
+export interface QuoteOptions extends MatchOptions {
+  /** Overrides the config's `rounding`. */
+  rounding?: RoundingMode;
+  /** Who receives the rounding remainder of multi-recipient fees. Defaults to `"largest"`. */
+  remainder?: RemainderPolicy;
+}
+
+export interface QuoteAmount {
+  /** Base units of the origin token. */
+  amount: string;
+  /** `amount` as a decimal string using the origin token's decimals, e.g. `"1.5"`. */
+  formatted: string;
+}
+
+export interface QuoteShare extends QuoteAmount {
+  recipient: string;
+}
+
+export interface Quote {
+  matched: boolean;
+  rule?: Rule;
+  fee: Fee | Fee[];
+  /** The full match result, including `matchDetails` and applied modifiers. */
+  match: MatchResult;
+  /** The token the fee is charged in. */
+  originToken: TokenInfo;
+  /**
+   * Total bps of the fee for the swap amount. For fees with fixed entries, and where
+   * caps applied, this is the rate actually charged: `feeAmount / amount * 10000`.
+   */
+  totalBps: number;
+  amount: QuoteAmount;
+  feeAmount: QuoteAmount;
+  /** `amount` minus `feeAmount`. */
+  netAmount: QuoteAmount;
+  /** Fee per recipient, summing to `feeAmount` (see `calculateFeeBreakdown`). */
+  recipients: QuoteShare[];
 }
 
 export interface RuleEngineOptions {
@@ -68,12 +444,30 @@ export interface RuleEngineOptions {
    * Useful for testing or when you need a separate token cache.
    */
   tokenRegistry?: TokenRegistry;
+  /**
+   * Maximum age of a token price for USD-based rule bounds (`minUsd`/`maxUsd`).
+   * Defaults to 2 hours. Rules with USD bounds do not match tokens with older prices.
+   */
+  maxPriceAgeMs?: number;
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to `Date.now`.
+   * Used for time-based rules and price staleness; `match(request, { at })` overrides it
+   * for time-based rules only.
+   */
+  clock?: () => number;
+  /**
+   * How to choose between several matching rules. Overrides `FeeConfig.strategy`;
+   * defaults to `"first-match"`.
+   */
+  strategy?: ResolutionStrategy;
 }
 
 export class RuleEngine {
   private matcher: RuleMatcher;
   private tokenRegistry: TokenRegistry;
   private feeConfig: FeeConfig;
+  private clock?: () => number;
+  private maxPriceAgeMs?: number;
 
   constructor(feeConfig: FeeConfig, options?: RuleEngineOptions) {
     const validation = validateConfig(feeConfig);
@@ -83,23 +477,144 @@ export class RuleEngine {
 
     this.feeConfig = feeConfig;
     this.tokenRegistry = options?.tokenRegistry ?? sharedTokenRegistry;
-    this.matcher = new RuleMatcher(this.feeConfig, this.tokenRegistry);
+    this.clock = options?.clock;
+    this.maxPriceAgeMs = options?.maxPriceAgeMs;
+    this.matcher = new RuleMatcher(this.feeConfig, this.tokenRegistry, {
+      maxPriceAgeMs: options?.maxPriceAgeMs,
+      clock: options?.clock,
+      strategy: options?.strategy,
+    });
   }
 
   async ensureReady(): Promise<void> {
     await this.tokenRegistry.ensureFresh();
   }
 
-  match(request: SwapRequest): MatchResult {
+  match(request: SwapRequest, options?: MatchOptions): MatchResult {
     if (!this.tokenRegistry.isFresh()) {
-      throw new Error("Token registry is not ready. Call ensureReady() or use safeMatch() instead.");
+      if (!this.tokenRegistry.isUsable?.()) {
+        throw new Error("Token registry is not ready. Call ensureReady() or use safeMatch() instead.");
+      }
+      // Serve the stale tokens while the registry refreshes in the background
+      this.tokenRegistry.ensureFresh().catch(() => {});
+    }
+    return this.matcher.match(request, options);
+  }
+
+  async safeMatch(request: SwapRequest, options?: MatchOptions): Promise<MatchResult> {
+    await this.ensureReady();
+    return this.match(request, options);
+  }
+
+  /**
+   * Matches the request and prices it: the fee, the amount after the fee and each
+   * recipient's share, in base units and as decimal strings of the origin token.
+   * Requires `request.amount` and a known origin asset.
+   */
+  quote(request: SwapRequest, options?: QuoteOptions): Quote {
+    if (request.amount === undefined) {
+      throw new Error("Cannot quote without an amount: set request.amount");
     }
-    return this.matcher.match(request);
+    const match = this.match(request, options);
+    const originToken = match.matchDetails?.originToken ?? this.tokenRegistry.getToken(request.originAsset);
+    if (!originToken) {
+      throw new Error(`Cannot quote unknown origin asset "${request.originAsset}"`);
+    }
+
+    const amount = parseAmount(request.amount);
+    const { total, shares } = this.calculateFeeBreakdown(amount, match.fee, {
+      token: originToken,
+      rounding: options?.rounding,
+      remainder: options?.remainder,
+    });
+    const feeAmount = BigInt(total);
+    const toQuoteAmount = (value: bigint): QuoteAmount => ({
+      amount: value.toString(),
+      formatted: formatTokenAmount(value, originToken),
+    });
+
+    const hasCaps = (Array.isArray(match.fee) ? match.fee : [match.fee]).some(
+      (f) => f.type !== "fixed" && (f.min_amount ?? f.max_amount ?? f.min_usd ?? f.max_usd) !== undefined
+    );
+    const rate = hasCaps ? undefined : getEffectiveBps(match.fee, amount);
+    const charged = amount > 0n ? Number(feeAmount * BPS_DIVISOR) / Number(amount) : 0;
+
+    return {
+      matched: match.matched,
+      rule: match.rule,
+      fee: match.fee,
+      match,
+      originToken,
+      totalBps: rate ?? charged,
+      amount: toQuoteAmount(amount),
+      feeAmount: toQuoteAmount(feeAmount),
+      netAmount: toQuoteAmount(amount - feeAmount),
+      recipients: shares.map((share) => ({ recipient: share.recipient, ...toQuoteAmount(BigInt(share.amount)) })),
+    };
   }
 
-  async safeMatch(request: SwapRequest): Promise<MatchResult> {
+  /** Like `quote`, but refreshes the token registry first if needed. */
+  async safeQuote(request: SwapRequest, options?: QuoteOptions): Promise<Quote> {
     await this.ensureReady();
-    return this.match(request);
+    return this.quote(request, options);
+  }
+
+  /**
+   * `calculateFee` with the engine's defaults: the config's `rounding`, and the engine's
+   * token registry and `clock` for fixed fee conversion and USD caps. `options` override them.
+   */
+  calculateFee(amount: string | bigint, fee: number | Fee | Fee[], options?: FeeCalculationOptions): string {
+    return calculateFee(amount, fee, this.getCalculationOptions(options));
+  }
+
+  calculateAmountAfterFee(
+    amount: string | bigint,
+    fee: number | Fee | Fee[],
+    options?: FeeCalculationOptions
+  ): string {
+    return calculateAmountAfterFee(amount, fee, this.getCalculationOptions(options));
+  }
+
+  calculateFeeBreakdown(amount: string | bigint, fee: Fee | Fee[], options?: FeeBreakdownOptions): FeeBreakdown {
+    return calculateFeeBreakdown(amount, fee, this.getCalculationOptions(options));
+  }
+
+  private getCalculationOptions<T extends FeeCalculationOptions>(options?: T): T {
+    // Options left undefined fall back to the engine's defaults
+    const overrides = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+    return {
+      rounding: this.feeConfig.rounding,
+      tokenRegistry: this.tokenRegistry,
+      now: this.clock?.(),
+      maxPriceAgeMs: this.maxPriceAgeMs,
+      ...Object.fromEntries(overrides),
+    } as T;
+  }
+
+  /** `parseTokenAmount` with the decimals of a registry token. Throws for unknown assets. */
+  parseTokenAmount(value: string, assetId: string): string {
+    return parseTokenAmount(value, this.getKnownToken(assetId));
+  }
+
+  /** `formatTokenAmount` with the decimals of a registry token. Throws for unknown assets. */
+  formatTokenAmount(amount: string | bigint, assetId: string): string {
+    return formatTokenAmount(amount, this.getKnownToken(assetId));
+  }
+
+  private getKnownToken(assetId: string): TokenInfo {
+    const token = this.tokenRegistry.getToken(assetId);
+    if (!token) {
+      throw new Error(`Unknown asset "${assetId}": not in the token registry`);
+    }
+    return token;
+  }
+
+  /**
+   * Rules whose matching may change with the token list changes in `diff`, e.g. from
+   * `CachedTokenRegistry.diff` or its `refresh` event. See `RuleMatcher.getAffectedRules`.
+   */
+  getAffectedRules(diff: TokenRegistryDiff): AffectedRule[] {
+    return this.matcher.getAffectedRules(diff);
   }
 
   getTokenRegistrySize(): number {
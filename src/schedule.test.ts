@@ -0,0 +1,227 @@
+import { describe, it, expect } from "bun:test";
+import { getNextRuleTransition, isRuleActiveAt, isScheduleActive, parseCron } from "./schedule";
+import type { Rule, RuleSchedule } from "./types";
+
+function ruleWith(overrides: Partial<Rule>): Rule {
+  return {
+    id: "scheduled",
+    enabled: true,
+    match: { in: { symbol: "*" }, out: { symbol: "*" } },
+    fee: { type: "bps", bps: 10, recipient: "fees.near" },
+    ...overrides,
+  };
+}
+
+// 2025-06-06 is a Friday
+const FRIDAY_NOON_UTC = Date.UTC(2025, 5, 6, 12, 0);
+const SATURDAY_NOON_UTC = Date.UTC(2025, 5, 7, 12, 0);
+
+describe("isScheduleActive", () => {
+  describe("day and time windows", () => {
+    const weekends: RuleSchedule = { active: [{ days: ["sat", "sun"] }] };
+
+    it("is active on listed days", () => {
+      expect(isScheduleActive(weekends, SATURDAY_NOON_UTC)).toBe(true);
+      expect(isScheduleActive(weekends, Date.UTC(2025, 5, 8, 23, 59))).toBe(true);
+    });
+
+    it("is inactive on other days", () => {
+      expect(isScheduleActive(weekends, FRIDAY_NOON_UTC)).toBe(false);
+      expect(isScheduleActive(weekends, Date.UTC(2025, 5, 9, 0, 0))).toBe(false);
+    });
+
+    it("treats start as inclusive and end as exclusive", () => {
+      const happyHour: RuleSchedule = { active: [{ start: "17:00", end: "19:00" }] };
+
+      expect(isScheduleActive(happyHour, Date.UTC(2025, 5, 6, 16, 59))).toBe(false);
+      expect(isScheduleActive(happyHour, Date.UTC(2025, 5, 6, 17, 0))).toBe(true);
+      expect(isScheduleActive(happyHour, Date.UTC(2025, 5, 6, 18, 59))).toBe(true);
+      expect(isScheduleActive(happyHour, Date.UTC(2025, 5, 6, 19, 0))).toBe(false);
+    });
+
+    it("runs overnight windows into the next day", () => {
+      const fridayNight: RuleSchedule = { active: [{ days: ["fri"], start: "22:00", end: "02:00" }] };
+
+      expect(isScheduleActive(fridayNight, Date.UTC(2025, 5, 6, 23, 0))).toBe(true);
+      expect(isScheduleActive(fridayNight, Date.UTC(2025, 5, 7, 1, 59))).toBe(true);
+      expect(isScheduleActive(fridayNight, Date.UTC(2025, 5, 7, 2, 0))).toBe(false);
+      expect(isScheduleActive(fridayNight, Date.UTC(2025, 5, 7, 23, 0))).toBe(false);
+      expect(isScheduleActive(fridayNight, Date.UTC(2025, 5, 6, 1, 0))).toBe(false);
+    });
+  });
+
+  describe("time zones", () => {
+    it("evaluates windows in the schedule's time zone", () => {
+      const berlinMorning: RuleSchedule = { timezone: "Europe/Berlin", active: [{ start: "09:00", end: "10:00" }] };
+
+      // CEST is UTC+2 in June
+      expect(isScheduleActive(berlinMorning, Date.UTC(2025, 5, 6, 7, 30))).toBe(true);
+      expect(isScheduleActive(berlinMorning, Date.UTC(2025, 5, 6, 9, 30))).toBe(false);
+      // CET is UTC+1 in January
+      expect(isScheduleActive(berlinMorning, Date.UTC(2025, 0, 10, 8, 30))).toBe(true);
+    });
+
+    it("uses the local day of week", () => {
+      const tokyoSaturday: RuleSchedule = { timezone: "Asia/Tokyo", active: [{ days: ["sat"] }] };
+
+      // Friday 20:00 UTC is Saturday 05:00 in Tokyo
+      expect(isScheduleActive(tokyoSaturday, Date.UTC(2025, 5, 6, 20, 0))).toBe(true);
+      expect(isScheduleActive(tokyoSaturday, Date.UTC(2025, 5, 6, 14, 0))).toBe(false);
+    });
+  });
+
+  describe("blackout windows", () => {
+    it("deactivates the schedule inside a blackout window", () => {
+      const schedule: RuleSchedule = { blackout: [{ days: ["mon"], start: "00:00", end: "01:00" }] };
+
+      // 2025-06-09 is a Monday
+      expect(isScheduleActive(schedule, Date.UTC(2025, 5, 9, 0, 30))).toBe(false);
+      expect(isScheduleActive(schedule, Date.UTC(2025, 5, 9, 1, 0))).toBe(true);
+      expect(isScheduleActive(schedule, FRIDAY_NOON_UTC)).toBe(true);
+    });
+
+    it("takes precedence over active windows", () => {
+      const schedule: RuleSchedule = {
+        active: [{ days: ["sat", "sun"] }],
+        blackout: [{ start: "12:00", end: "13:00" }],
+      };
+
+      expect(isScheduleActive(schedule, SATURDAY_NOON_UTC)).toBe(false);
+      expect(isScheduleActive(schedule, SATURDAY_NOON_UTC + 3600000)).toBe(true);
+    });
+  });
+
+  describe("cron windows", () => {
+    it("covers every matching minute", () => {
+      const weekdayEvenings: RuleSchedule = { active: [{ cron: "* 18-19 * * 1-5" }] };
+
+      expect(isScheduleActive(weekdayEvenings, Date.UTC(2025, 5, 6, 18, 0))).toBe(true);
+      expect(isScheduleActive(weekdayEvenings, Date.UTC(2025, 5, 6, 19, 59))).toBe(true);
+      expect(isScheduleActive(weekdayEvenings, Date.UTC(2025, 5, 6, 20, 0))).toBe(false);
+      expect(isScheduleActive(weekdayEvenings, Date.UTC(2025, 5, 7, 18, 0))).toBe(false);
+    });
+
+    it("matches either day field when both are restricted", () => {
+      const firstOrSunday: RuleSchedule = { active: [{ cron: "* * 1 * 0" }] };
+
+      expect(isScheduleActive(firstOrSunday, Date.UTC(2025, 5, 1, 12, 0))).toBe(true); // Sunday the 1st
+      expect(isScheduleActive(firstOrSunday, Date.UTC(2025, 6, 1, 12, 0))).toBe(true); // Tuesday the 1st
+      expect(isScheduleActive(firstOrSunday, Date.UTC(2025, 5, 8, 12, 0))).toBe(true); // Sunday the 8th
+      expect(isScheduleActive(firstOrSunday, FRIDAY_NOON_UTC)).toBe(false);
+    });
+
+    it("supports steps, lists and Sunday as 7", () => {
+      const schedule: RuleSchedule = { active: [{ cron: "*/15 0,12 * 1-6 7" }] };
+
+      expect(isScheduleActive(schedule, Date.UTC(2025, 5, 8, 12, 45))).toBe(true);
+      expect(isScheduleActive(schedule, Date.UTC(2025, 5, 8, 12, 46))).toBe(false);
+      expect(isScheduleActive(schedule, Date.UTC(2025, 6, 6, 12, 45))).toBe(false); // July
+    });
+  });
+});
+
+describe("parseCron", () => {
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow("expected 5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow("between 0 and 59");
+    expect(() => parseCron("* * * * mon")).toThrow("day-of-week");
+    expect(() => parseCron("*/0 * * * *")).toThrow("bad step");
+    expect(() => parseCron("5-1 * * * *")).toThrow("minute");
+  });
+});
+
+describe("isRuleActiveAt", () => {
+  it("combines valid_from/valid_until with the schedule", () => {
+    const rule = ruleWith({
+      valid_from: "2025-06-01T00:00:00Z",
+      valid_until: "2025-06-30T23:59:59Z",
+      schedule: { active: [{ days: ["sat", "sun"] }] },
+    });
+
+    expect(isRuleActiveAt(rule, SATURDAY_NOON_UTC)).toBe(true);
+    expect(isRuleActiveAt(rule, FRIDAY_NOON_UTC)).toBe(false);
+    expect(isRuleActiveAt(rule, Date.UTC(2025, 6, 5, 12, 0))).toBe(false); // Saturday in July
+  });
+
+  it("throws on invalid dates", () => {
+    expect(() => isRuleActiveAt(ruleWith({ valid_from: "not-a-date" }), FRIDAY_NOON_UTC)).toThrow(
+      'Invalid valid_from: "not-a-date" is not a valid date string'
+    );
+  });
+});
+
+describe("getNextRuleTransition", () => {
+  it("finds the next activation of a weekly schedule", () => {
+    const rule = ruleWith({ schedule: { active: [{ days: ["sat", "sun"] }] } });
+    const transition = getNextRuleTransition(rule, FRIDAY_NOON_UTC);
+
+    expect(transition).toEqual({ at: new Date(Date.UTC(2025, 5, 7, 0, 0)), active: true });
+  });
+
+  it("finds the next deactivation", () => {
+    const rule = ruleWith({ schedule: { active: [{ days: ["sat", "sun"] }] } });
+    const transition = getNextRuleTransition(rule, SATURDAY_NOON_UTC);
+
+    expect(transition).toEqual({ at: new Date(Date.UTC(2025, 5, 9, 0, 0)), active: false });
+  });
+
+  it("accounts for the schedule's time zone", () => {
+    const rule = ruleWith({
+      schedule: { timezone: "America/New_York", active: [{ start: "09:00", end: "17:00" }] },
+    });
+    const transition = getNextRuleTransition(rule, Date.UTC(2025, 5, 6, 0, 0));
+
+    // 09:00 EDT is 13:00 UTC
+    expect(transition).toEqual({ at: new Date(Date.UTC(2025, 5, 6, 13, 0)), active: true });
+  });
+
+  it("finds transitions across a daylight saving change", () => {
+    const rule = ruleWith({
+      schedule: { timezone: "America/New_York", active: [{ days: ["mon"], start: "09:00", end: "17:00" }] },
+    });
+    // Clocks go back on Sunday 2 November; 09:00 EST is 14:00 UTC
+    const transition = getNextRuleTransition(rule, Date.UTC(2025, 10, 1, 12, 0));
+
+    expect(transition).toEqual({ at: new Date(Date.UTC(2025, 10, 3, 14, 0)), active: true });
+  });
+
+  it("finds transitions of cron windows", () => {
+    const rule = ruleWith({ schedule: { active: [{ cron: "*/15 9-10 * * 1" }] } });
+
+    expect(getNextRuleTransition(rule, FRIDAY_NOON_UTC)).toEqual({
+      at: new Date(Date.UTC(2025, 5, 9, 9, 0)),
+      active: true,
+    });
+    expect(getNextRuleTransition(rule, Date.UTC(2025, 5, 9, 9, 0))).toEqual({
+      at: new Date(Date.UTC(2025, 5, 9, 9, 1)),
+      active: false,
+    });
+    expect(getNextRuleTransition(rule, Date.UTC(2025, 5, 9, 10, 46))).toEqual({
+      at: new Date(Date.UTC(2025, 5, 16, 9, 0)),
+      active: true,
+    });
+  });
+
+  it("uses valid_from and valid_until boundaries", () => {
+    const rule = ruleWith({ valid_from: "2025-06-10T10:30:15Z", valid_until: "2025-06-11T00:00:00Z" });
+
+    expect(getNextRuleTransition(rule, FRIDAY_NOON_UTC)).toEqual({
+      at: new Date("2025-06-10T10:30:15Z"),
+      active: true,
+    });
+    expect(getNextRuleTransition(rule, Date.UTC(2025, 5, 10, 12, 0))).toEqual({
+      at: new Date(Date.UTC(2025, 5, 11, 0, 0) + 1),
+      active: false,
+    });
+  });
+
+  it("returns null when nothing changes within the horizon", () => {
+    expect(getNextRuleTransition(ruleWith({}), FRIDAY_NOON_UTC)).toBeNull();
+
+    const rule = ruleWith({ schedule: { active: [{ days: ["sat"] }] } });
+    expect(getNextRuleTransition(rule, FRIDAY_NOON_UTC, 3600000)).toBeNull();
+
+    const allDay = ruleWith({ schedule: { timezone: "Europe/London", active: [{ start: "00:00", end: "24:00" }] } });
+    expect(getNextRuleTransition(allDay, FRIDAY_NOON_UTC)).toBeNull();
+  });
+});
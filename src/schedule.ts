@@ -0,0 +1,386 @@
+import type { Rule, RuleSchedule, ScheduleWindow, Weekday } from "./types";
+
+const MINUTE_MS = 60000;
+const QUARTER_HOUR_MS = 900000;
+const DAY_MS = 86400000;
+const DEFAULT_TRANSITION_HORIZON_MS = 366 * 86400000; // ~1 year
+
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export interface RuleTransition {
+  /** First instant at which the rule's state differs from its state at the start of the search. */
+  at: Date;
+  /** Whether the rule becomes active (`true`) or inactive (`false`) at `at`. */
+  active: boolean;
+}
+
+interface LocalTime {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDayOfMonth: boolean;
+  anyWeekday: boolean;
+}
+
+interface CompiledWindow {
+  cron?: CronExpression;
+  days: Set<number>;
+  start: number; // minute of day
+  end: number; // minute of day, 1440 for "24:00"
+  edges: number[]; // minutes of day at which the window can start or stop matching
+}
+
+interface CompiledSchedule {
+  timezone: string;
+  active?: CompiledWindow[];
+  blackout: CompiledWindow[];
+}
+
+function parseTime(value: string, allowEndOfDay: boolean): number {
+  if (allowEndOfDay && value === "24:00") return 1440;
+  const match = TIME_REGEX.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time "${value}": expected "HH:MM"`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    if (part.split("/").length > 2) {
+      throw new Error(`Invalid cron ${name} field "${field}"`);
+    }
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid cron ${name} field "${field}": bad step "${stepText}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      from = min;
+      to = max;
+    } else if (range !== undefined && /^\d+$/.test(range)) {
+      from = Number(range);
+      to = stepText === undefined ? from : max;
+    } else if (range !== undefined && /^\d+-\d+$/.test(range)) {
+      const [a, b] = range.split("-");
+      from = Number(a);
+      to = Number(b);
+    } else {
+      throw new Error(`Invalid cron ${name} field "${field}"`);
+    }
+
+    if (from < min || to > max || from > to) {
+      throw new Error(`Invalid cron ${name} field "${field}": values must be between ${min} and ${max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a five-field cron-like expression: `minute hour day-of-month month day-of-week`.
+ * Each field accepts `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and comma lists.
+ * Day-of-week is 0-7 with both 0 and 7 meaning Sunday. As in cron, when both day fields
+ * are restricted a day matches if either of them matches.
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+  const weekdays = parseCronField(dayOfWeek, 0, 7, "day-of-week");
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes: parseCronField(minute, 0, 59, "minute"),
+    hours: parseCronField(hour, 0, 23, "hour"),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31, "day-of-month"),
+    months: parseCronField(month, 1, 12, "month"),
+    weekdays,
+    anyDayOfMonth: dayOfMonth === "*",
+    anyWeekday: dayOfWeek === "*",
+  };
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes of the day at which the cron's minute and hour fields start or stop matching. */
+function getCronEdges(cron: CronExpression): number[] {
+  const edges: number[] = [];
+  let previous = false;
+  for (let minute = 0; minute < 1440; minute++) {
+    const matches = cron.hours.has(Math.floor(minute / 60)) && cron.minutes.has(minute % 60);
+    if (minute === 0 || matches !== previous) edges.push(minute);
+    previous = matches;
+  }
+  return edges;
+}
+
+function compileWindow(window: ScheduleWindow): CompiledWindow {
+  if (window.cron !== undefined) {
+    const cron = parseCron(window.cron);
+    return { cron, days: new Set(), start: 0, end: 0, edges: getCronEdges(cron) };
+  }
+  const days = new Set((window.days ?? WEEKDAYS).map((day) => WEEKDAYS.indexOf(day)));
+  if (days.has(-1)) {
+    throw new Error(`Invalid days ${JSON.stringify(window.days)}: expected ${WEEKDAYS.join(", ")}`);
+  }
+  const start = parseTime(window.start ?? "00:00", false);
+  const end = parseTime(window.end ?? "24:00", true);
+  return { days, start, end, edges: [0, start, end % 1440] };
+}
+
+const compiledSchedules = new WeakMap<RuleSchedule, CompiledSchedule>();
+
+function compileSchedule(schedule: RuleSchedule): CompiledSchedule {
+  let compiled = compiledSchedules.get(schedule);
+  if (!compiled) {
+    const timezone = schedule.timezone ?? "UTC";
+    if (!isValidTimeZone(timezone)) {
+      throw new Error(`Invalid schedule timezone "${timezone}"`);
+    }
+    compiled = {
+      timezone,
+      active: schedule.active?.map(compileWindow),
+      blackout: (schedule.blackout ?? []).map(compileWindow),
+    };
+    compiledSchedules.set(schedule, compiled);
+  }
+  return compiled;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsetCache = new Map<string, { quarter: number; offset: number }>();
+
+function getUtcOffsetMs(timestamp: number, timezone: string): number {
+  if (timezone === "UTC") return 0;
+
+  // UTC offsets only change on quarter-hour boundaries, so one lookup covers 15 minutes
+  const quarter = Math.floor(timestamp / QUARTER_HOUR_MS);
+  const cached = offsetCache.get(timezone);
+  if (cached && cached.quarter === quarter) return cached.offset;
+
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(quarter * QUARTER_HOUR_MS)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const localAsUtc = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!);
+  const offset = localAsUtc - quarter * QUARTER_HOUR_MS;
+
+  offsetCache.set(timezone, { quarter, offset });
+  return offset;
+}
+
+function toLocalTime(timestamp: number, timezone: string): LocalTime {
+  const local = new Date(timestamp + getUtcOffsetMs(timestamp, timezone));
+  return {
+    minute: local.getUTCMinutes(),
+    hour: local.getUTCHours(),
+    day: local.getUTCDate(),
+    month: local.getUTCMonth() + 1,
+    weekday: local.getUTCDay(),
+  };
+}
+
+function matchesCron(cron: CronExpression, time: LocalTime): boolean {
+  return cron.minutes.has(time.minute) && cron.hours.has(time.hour) && matchesCronDay(cron, time);
+}
+
+function matchesCronDay(cron: CronExpression, time: Omit<LocalTime, "minute" | "hour">): boolean {
+  if (!cron.months.has(time.month)) return false;
+  const dayOfMonth = cron.daysOfMonth.has(time.day);
+  const weekday = cron.weekdays.has(time.weekday);
+  if (cron.anyDayOfMonth || cron.anyWeekday) return dayOfMonth && weekday;
+  return dayOfMonth || weekday;
+}
+
+function matchesWindow(window: CompiledWindow, time: LocalTime): boolean {
+  if (window.cron) return matchesCron(window.cron, time);
+
+  const minuteOfDay = time.hour * 60 + time.minute;
+  if (window.start < window.end) {
+    return window.days.has(time.weekday) && minuteOfDay >= window.start && minuteOfDay < window.end;
+  }
+  // Overnight window: the part after midnight belongs to the previous day
+  const previousDay = (time.weekday + 6) % 7;
+  return (
+    (window.days.has(time.weekday) && minuteOfDay >= window.start) ||
+    (window.days.has(previousDay) && minuteOfDay < window.end)
+  );
+}
+
+/** Returns true if the schedule is active at the given time. */
+export function isScheduleActive(schedule: RuleSchedule, at: Date | number): boolean {
+  const compiled = compileSchedule(schedule);
+  const time = toLocalTime(typeof at === "number" ? at : at.getTime(), compiled.timezone);
+
+  if (compiled.blackout.some((window) => matchesWindow(window, time))) return false;
+  if (!compiled.active) return true;
+  return compiled.active.some((window) => matchesWindow(window, time));
+}
+
+function parseDate(dateStr: string, fieldName: string): number {
+  const timestamp = new Date(dateStr).getTime();
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid ${fieldName}: "${dateStr}" is not a valid date string`);
+  }
+  return timestamp;
+}
+
+/**
+ * Returns true if the rule's `valid_from`/`valid_until` range and its `schedule`
+ * (if any) allow it at the given time. Does not look at `enabled`.
+ * Throws if `valid_from` or `valid_until` is not a valid date string.
+ */
+export function isRuleActiveAt(rule: Rule, at: Date | number): boolean {
+  const timestamp = typeof at === "number" ? at : at.getTime();
+  if (rule.valid_from) {
+    const from = parseDate(rule.valid_from, "valid_from");
+    if (timestamp < from) return false;
+  }
+  if (rule.valid_until) {
+    const until = parseDate(rule.valid_until, "valid_until");
+    if (timestamp > until) return false;
+  }
+  if (rule.schedule && !isScheduleActive(rule.schedule, timestamp)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Instants in `[from, to)` at which the schedule can change state, assuming the UTC
+ * offset is `offset` throughout: the edges of every window on each local day.
+ */
+function getScheduleEdges(compiled: CompiledSchedule, offset: number, from: number, to: number): number[] {
+  const windows = [...(compiled.active ?? []), ...compiled.blackout];
+  const instants: number[] = [];
+
+  for (let day = Math.floor((from + offset) / DAY_MS) * DAY_MS; day < to + offset; day += DAY_MS) {
+    const date = new Date(day);
+    const time = { day: date.getUTCDate(), month: date.getUTCMonth() + 1, weekday: date.getUTCDay() };
+    const minutes = new Set([0]);
+    for (const window of windows) {
+      if (window.cron && !matchesCronDay(window.cron, time)) continue;
+      window.edges.forEach((minute) => minutes.add(minute));
+    }
+    for (const minute of minutes) {
+      const instant = day + minute * MINUTE_MS - offset;
+      if (instant >= from && instant < to) instants.push(instant);
+    }
+  }
+  return instants;
+}
+
+/** First quarter hour in `(from, to]` at which the UTC offset differs from the one at `from`. */
+function findOffsetChange(timezone: string, from: number, to: number): number {
+  const offset = getUtcOffsetMs(from, timezone);
+  let low = Math.floor(from / QUARTER_HOUR_MS);
+  let high = Math.floor(to / QUARTER_HOUR_MS);
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (getUtcOffsetMs(middle * QUARTER_HOUR_MS, timezone) === offset) low = middle;
+    else high = middle;
+  }
+  return high * QUARTER_HOUR_MS;
+}
+
+/**
+ * Finds when the rule next activates or deactivates after `from`, searching up to
+ * `horizonMs` ahead (about one year by default). Schedules are checked at minute
+ * resolution, but only at window edges, so the cost grows with the number of edges
+ * rather than minutes. Returns `null` if the state does not change within the horizon.
+ */
+export function getNextRuleTransition(
+  rule: Rule,
+  from: Date | number = Date.now(),
+  horizonMs: number = DEFAULT_TRANSITION_HORIZON_MS
+): RuleTransition | null {
+  const start = typeof from === "number" ? from : from.getTime();
+  const end = start + horizonMs;
+  const initial = isRuleActiveAt(rule, start);
+
+  // valid_from takes effect at its instant, valid_until right after it
+  const boundaries: number[] = [];
+  if (rule.valid_from) boundaries.push(parseDate(rule.valid_from, "valid_from"));
+  if (rule.valid_until) boundaries.push(parseDate(rule.valid_until, "valid_until") + 1);
+  const candidates = boundaries.filter((t) => t > start && t <= end).sort((a, b) => a - b);
+
+  const check = (t: number): RuleTransition | null => {
+    const active = isRuleActiveAt(rule, t);
+    return active !== initial ? { at: new Date(t), active } : null;
+  };
+
+  if (!rule.schedule) {
+    for (const t of candidates) {
+      const transition = check(t);
+      if (transition) return transition;
+    }
+    return null;
+  }
+
+  // Walk the horizon in steps of at most a day with a constant UTC offset, checking only
+  // the instants at which a window edge, a validity boundary or an offset change falls
+  const compiled = compileSchedule(rule.schedule);
+  let stepStart = start + 1;
+  let offsetChanged = false;
+  while (stepStart <= end) {
+    const offset = getUtcOffsetMs(stepStart, compiled.timezone);
+    let stepEnd = Math.min(stepStart + DAY_MS, end + 1);
+    const changes = getUtcOffsetMs(stepEnd, compiled.timezone) !== offset;
+    if (changes) stepEnd = findOffsetChange(compiled.timezone, stepStart, stepEnd);
+
+    const instants = getScheduleEdges(compiled, offset, stepStart, stepEnd);
+    if (offsetChanged) instants.push(stepStart);
+    while (candidates.length > 0 && candidates[0]! < stepEnd) instants.push(candidates.shift()!);
+    for (const t of instants.sort((a, b) => a - b)) {
+      const transition = check(t);
+      if (transition) return transition;
+    }
+
+    stepStart = stepEnd;
+    offsetChanged = changes;
+  }
+  return null;
+}
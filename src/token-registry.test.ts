@@ -0,0 +1,677 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  CachedTokenRegistry,
+  LayeredTokenRegistry,
+  StaticTokenRegistry,
+  diffTokens,
+  type TokenSnapshotStorage,
+} from "./token-registry";
+import { getUsdPrice } from "./pricing";
+import { RuleEngine } from "./rule-engine";
+import type { FeeConfig, TokenRegistry } from "./types";
+
+// Entries in the 1Click /v0/tokens response format
+const apiTokens = [
+  {
+    assetId: "nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near",
+    decimals: 6,
+    blockchain: "eth",
+    symbol: "USDC",
+    price: 0.999,
+    priceUpdatedAt: "2025-06-06T12:00:00.000Z",
+    contractAddress: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+  },
+  {
+    assetId: "nep141:wrap.near",
+    decimals: 24,
+    blockchain: "near",
+    symbol: "wNEAR",
+  },
+];
+const USDC_ID = apiTokens[0]!.assetId;
+
+describe("StaticTokenRegistry", () => {
+  it("builds the registry from a token list", () => {
+    const registry = new StaticTokenRegistry(apiTokens);
+
+    expect(registry.size).toBe(2);
+    expect(registry.getToken(USDC_ID)).toEqual({
+      assetId: USDC_ID,
+      blockchain: "eth",
+      symbol: "USDC",
+      decimals: 6,
+      price: 0.999,
+      priceUpdatedAt: "2025-06-06T12:00:00.000Z",
+    });
+    expect(registry.getToken("nep141:wrap.near")).toEqual({
+      assetId: "nep141:wrap.near",
+      blockchain: "near",
+      symbol: "wNEAR",
+      decimals: 24,
+    });
+    expect(registry.getToken("unknown")).toBeUndefined();
+  });
+
+  it("is always fresh", async () => {
+    const registry = new StaticTokenRegistry();
+
+    expect(registry.isFresh()).toBe(true);
+    await registry.ensureFresh();
+    expect(registry.size).toBe(0);
+  });
+
+  it("rejects invalid tokens", () => {
+    expect(() => new StaticTokenRegistry([apiTokens[0], { assetId: "x", symbol: "X", decimals: 6 }])).toThrow(
+      "Invalid token at index 1"
+    );
+    expect(() => new StaticTokenRegistry([null])).toThrow("Invalid token at index 0");
+    expect(() => new StaticTokenRegistry({} as unknown as unknown[])).toThrow("Invalid token list: expected array");
+  });
+
+  it("loads a /v0/tokens response from JSON", () => {
+    const registry = StaticTokenRegistry.fromJson(JSON.stringify(apiTokens));
+    expect(registry.getToken(USDC_ID)?.symbol).toBe("USDC");
+  });
+
+  describe("editing", () => {
+    it("adds tokens", () => {
+      const registry = new StaticTokenRegistry(apiTokens);
+      registry.addToken({
+        assetId: "nep141:usdt.tether-token.near",
+        blockchain: "near",
+        symbol: "USDT",
+        decimals: 6,
+      });
+
+      expect(registry.size).toBe(3);
+      expect(registry.getToken("nep141:usdt.tether-token.near")?.symbol).toBe("USDT");
+    });
+
+    it("does not add a token twice", () => {
+      const registry = new StaticTokenRegistry(apiTokens);
+      expect(() => registry.addToken({ assetId: USDC_ID, blockchain: "eth", symbol: "USDC", decimals: 6 })).toThrow(
+        `Token "${USDC_ID}" already exists`
+      );
+    });
+
+    it("removes tokens", () => {
+      const registry = new StaticTokenRegistry(apiTokens);
+
+      expect(registry.removeToken(USDC_ID)).toBe(true);
+      expect(registry.removeToken(USDC_ID)).toBe(false);
+      expect(registry.getToken(USDC_ID)).toBeUndefined();
+    });
+
+    it("overrides fields of existing tokens", () => {
+      const registry = new StaticTokenRegistry(apiTokens, { clock: () => Date.UTC(2025, 5, 7) });
+      registry.overrideToken(USDC_ID, { symbol: "USDC.e", priceUpdatedAt: "2025-06-06T13:00:00.000Z" });
+
+      expect(registry.getToken(USDC_ID)).toEqual({
+        assetId: USDC_ID,
+        blockchain: "eth",
+        symbol: "USDC.e",
+        decimals: 6,
+        price: 0.999,
+        priceUpdatedAt: "2025-06-06T13:00:00.000Z",
+      });
+      expect(() => registry.overrideToken("unknown", { price: 1 })).toThrow('Token "unknown" does not exist');
+      expect(() => registry.overrideToken(USDC_ID, { decimals: "6" as unknown as number })).toThrow(
+        `Invalid override of "${USDC_ID}"`
+      );
+    });
+  });
+
+  it("treats prices without priceUpdatedAt as current", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "large-usdc",
+          enabled: true,
+          match: { in: { symbol: "USDC", minUsd: 10 }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+    let now = Date.UTC(2025, 5, 6, 12, 0);
+    const registry = new StaticTokenRegistry(apiTokens, { clock: () => now });
+    registry.overrideToken(USDC_ID, { price: 1, priceUpdatedAt: undefined });
+    const engine = new RuleEngine(config, { tokenRegistry: registry, clock: () => now });
+    const request = { originAsset: USDC_ID, destinationAsset: "nep141:wrap.near", amount: "100000000" };
+
+    expect(registry.getToken(USDC_ID)?.priceUpdatedAt).toBe("2025-06-06T12:00:00.000Z");
+    expect(engine.match(request).rule?.id).toBe("large-usdc");
+    now += 30 * 86400000;
+    expect(engine.match(request).rule?.id).toBe("large-usdc");
+  });
+
+  it("works as a RuleEngine registry without network access", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "usdc",
+          enabled: true,
+          match: { in: { symbol: "USDC" }, out: { symbol: "wNEAR" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+    const engine = new RuleEngine(config, { tokenRegistry: new StaticTokenRegistry(apiTokens) });
+
+    const result = engine.match({ originAsset: USDC_ID, destinationAsset: "nep141:wrap.near" });
+    expect(result.rule?.id).toBe("usdc");
+  });
+});
+
+describe("CachedTokenRegistry", () => {
+  const originalFetch = globalThis.fetch;
+  let now = 0;
+  let calls = 0;
+  let failing = false;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 5, 6, 12, 0);
+    calls = 0;
+    failing = false;
+    globalThis.fetch = (async () => {
+      calls++;
+      if (failing) return new Response("unavailable", { status: 503, statusText: "Service Unavailable" });
+      return new Response(JSON.stringify(apiTokens));
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function createRegistry(staleWhileRevalidateMs?: number): CachedTokenRegistry {
+    return new CachedTokenRegistry({
+      url: "https://tokens.example/v0/tokens",
+      cacheTtlMs: 3600000,
+      staleWhileRevalidateMs,
+      clock: () => now,
+    });
+  }
+
+  it("expires after cacheTtlMs without a grace period", async () => {
+    const registry = createRegistry();
+    await registry.ensureFresh();
+    expect(registry.isFresh()).toBe(true);
+
+    now += 3600000;
+    expect(registry.isFresh()).toBe(false);
+    expect(registry.isUsable()).toBe(false);
+  });
+
+  it("serves stale tokens while refreshing in the background", async () => {
+    const registry = createRegistry(600000);
+    await registry.ensureFresh();
+    now += 3600000;
+
+    expect(registry.isFresh()).toBe(false);
+    expect(registry.isUsable()).toBe(true);
+
+    let release!: () => void;
+    const pending = new Promise<void>((resolve) => (release = resolve));
+    globalThis.fetch = (async () => {
+      calls++;
+      await pending;
+      return new Response(JSON.stringify(apiTokens));
+    }) as unknown as typeof fetch;
+
+    // Returns before the refresh completes
+    await registry.ensureFresh();
+    expect(calls).toBe(2);
+    expect(registry.getToken(USDC_ID)?.symbol).toBe("USDC");
+
+    release();
+    await registry.refresh();
+    expect(registry.isFresh()).toBe(true);
+  });
+
+  it("keeps the previous tokens and records the error when a refresh fails", async () => {
+    const registry = createRegistry(600000);
+    await registry.ensureFresh();
+    now += 3600000;
+    failing = true;
+
+    await registry.ensureFresh();
+    await Bun.sleep(0);
+
+    expect(registry.lastRefreshError?.message).toBe("Failed to fetch tokens: 503 Service Unavailable");
+    expect(registry.size).toBe(2);
+    expect(registry.isUsable()).toBe(true);
+
+    failing = false;
+    await registry.refresh();
+    expect(registry.lastRefreshError).toBeUndefined();
+  });
+
+  it("waits refreshRetryMs after a failed refresh before refreshing again", async () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [],
+    };
+    const registry = createRegistry(600000);
+    const engine = new RuleEngine(config, { tokenRegistry: registry });
+    await engine.ensureReady();
+    const request = { originAsset: USDC_ID, destinationAsset: "nep141:wrap.near" };
+    now += 3600000;
+    failing = true;
+
+    for (let i = 0; i < 50; i++) {
+      engine.match(request);
+      await Bun.sleep(0);
+    }
+    expect(calls).toBe(2);
+    expect(registry.lastRefreshError).toBeDefined();
+
+    now += 30000;
+    failing = false;
+    engine.match(request);
+    await Bun.sleep(0);
+    expect(calls).toBe(3);
+    expect(registry.isFresh()).toBe(true);
+  });
+
+  it("refuses stale tokens after the grace period", async () => {
+    const registry = createRegistry(600000);
+    await registry.ensureFresh();
+    now += 3600000 + 600000;
+    failing = true;
+
+    expect(registry.isUsable()).toBe(false);
+    await expect(registry.ensureFresh()).rejects.toThrow("Failed to fetch tokens: 503");
+    expect(registry.getToken(USDC_ID)).toBeDefined();
+  });
+
+  it("lets RuleEngine match during the grace period and refuse after it", async () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [],
+    };
+    const registry = createRegistry(600000);
+    const engine = new RuleEngine(config, { tokenRegistry: registry });
+    await engine.ensureReady();
+    const request = { originAsset: USDC_ID, destinationAsset: "nep141:wrap.near" };
+
+    now += 3600000;
+    failing = true;
+    expect(engine.match(request).matched).toBe(false);
+    expect((await engine.safeMatch(request)).fee).toEqual(config.default_fee);
+
+    now += 600000;
+    expect(() => engine.match(request)).toThrow("Token registry is not ready");
+    await expect(engine.safeMatch(request)).rejects.toThrow("Failed to fetch tokens: 503");
+  });
+});
+
+describe("CachedTokenRegistry snapshots", () => {
+  const originalFetch = globalThis.fetch;
+  let stored: string | undefined;
+  let storage: TokenSnapshotStorage;
+  let now: number;
+  let calls: number;
+
+  beforeEach(() => {
+    stored = undefined;
+    storage = {
+      load: () => stored,
+      save: async (snapshot) => {
+        stored = snapshot;
+      },
+    };
+    now = Date.UTC(2025, 5, 6, 12, 0);
+    calls = 0;
+    globalThis.fetch = (async () => {
+      calls++;
+      return new Response(JSON.stringify(apiTokens));
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function createRegistry(): CachedTokenRegistry {
+    return new CachedTokenRegistry({
+      url: "https://tokens.example/v0/tokens",
+      cacheTtlMs: 3600000,
+      snapshotStorage: storage,
+      clock: () => now,
+    });
+  }
+
+  it("writes each fetch to the snapshot and loads it on construction", async () => {
+    await createRegistry().ensureFresh();
+    expect(calls).toBe(1);
+
+    now += 1800000;
+    const restored = createRegistry();
+
+    expect(restored.isFresh()).toBe(true);
+    expect(restored.size).toBe(2);
+    expect(restored.getToken(USDC_ID)?.price).toBe(0.999);
+    await restored.ensureFresh();
+    expect(calls).toBe(1);
+  });
+
+  it("keeps the original fetch time of the snapshot", async () => {
+    await createRegistry().ensureFresh();
+
+    now += 3600000;
+    const restored = createRegistry();
+
+    expect(restored.isFresh()).toBe(false);
+    expect(restored.size).toBe(2);
+    await restored.ensureFresh();
+    expect(calls).toBe(2);
+  });
+
+  it("ignores corrupt and invalid snapshots", () => {
+    const invalid = [
+      null,
+      [],
+      { version: 2, fetchedAt: now, tokens: apiTokens },
+      { version: 1, fetchedAt: "yesterday", tokens: apiTokens },
+      { version: 1, fetchedAt: now + 60000, tokens: apiTokens },
+      { version: 1, fetchedAt: now, tokens: {} },
+      { version: 1, fetchedAt: now, tokens: [{ assetId: "x" }] },
+    ];
+
+    stored = "{ not json";
+    expect(createRegistry().size).toBe(0);
+    for (const value of invalid) {
+      stored = JSON.stringify(value);
+      const registry = createRegistry();
+      expect(registry.size).toBe(0);
+      expect(registry.isFresh()).toBe(false);
+    }
+  });
+
+  it("starts empty without a snapshot", () => {
+    expect(createRegistry().isFresh()).toBe(false);
+  });
+
+  it("ignores storage errors", async () => {
+    storage = {
+      load: () => {
+        throw new Error("unreadable");
+      },
+      save: async () => {
+        throw new Error("read-only");
+      },
+    };
+    const registry = createRegistry();
+
+    expect(registry.size).toBe(0);
+    await registry.ensureFresh();
+    expect(registry.isFresh()).toBe(true);
+  });
+});
+
+describe("token registry changes", () => {
+  const originalFetch = globalThis.fetch;
+  let response: unknown[];
+
+  beforeEach(() => {
+    response = apiTokens;
+    globalThis.fetch = (async () => new Response(JSON.stringify(response))) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const USDT = { assetId: "nep141:usdt.tether-token.near", decimals: 6, blockchain: "near", symbol: "USDT" };
+
+  describe("diffTokens", () => {
+    it("lists added, removed and changed tokens", () => {
+      const before = new StaticTokenRegistry(apiTokens);
+      const after = new StaticTokenRegistry([{ ...apiTokens[0]!, symbol: "USDC.e", price: 1 }, USDT]);
+
+      const diff = diffTokens(
+        [USDC_ID, "nep141:wrap.near"].map((id) => before.getToken(id)!),
+        [USDC_ID, USDT.assetId].map((id) => after.getToken(id)!)
+      );
+
+      expect(diff.added.map((t) => t.assetId)).toEqual([USDT.assetId]);
+      expect(diff.removed.map((t) => t.assetId)).toEqual(["nep141:wrap.near"]);
+      expect(diff.changed).toEqual([
+        {
+          assetId: USDC_ID,
+          before: before.getToken(USDC_ID)!,
+          after: after.getToken(USDC_ID)!,
+          fields: ["symbol"],
+        },
+      ]);
+    });
+
+    it("ignores price updates", () => {
+      const before = new StaticTokenRegistry(apiTokens).getToken(USDC_ID)!;
+      const after = { ...before, price: 1.001, priceUpdatedAt: "2025-06-06T13:00:00.000Z" };
+
+      expect(diffTokens([before], [after])).toEqual({ added: [], removed: [], changed: [] });
+    });
+  });
+
+  it("emits events after each refresh", async () => {
+    const registry = new CachedTokenRegistry({ url: "https://tokens.example/v0/tokens", cacheTtlMs: 3600000 });
+    const events: string[] = [];
+    registry.on("refresh", ({ diff, initial }) => events.push(`refresh:${initial}:${diff.added.length}`));
+    registry.on("added", (token) => events.push(`added:${token.symbol}`));
+    registry.on("removed", (token) => events.push(`removed:${token.symbol}`));
+    registry.on("changed", (change) => events.push(`changed:${change.before.decimals}->${change.after.decimals}`));
+
+    await registry.refresh();
+    expect(events).toEqual(["refresh:true:2"]);
+
+    events.length = 0;
+    response = [{ ...apiTokens[0]!, decimals: 18 }, USDT];
+    await registry.refresh();
+    expect(events).toEqual(["added:USDT", "removed:wNEAR", "changed:6->18", "refresh:false:1"]);
+  });
+
+  it("unsubscribes listeners and isolates listener errors", async () => {
+    const registry = new CachedTokenRegistry({ url: "https://tokens.example/v0/tokens", cacheTtlMs: 3600000 });
+    let calls = 0;
+    registry.on("refresh", () => {
+      throw new Error("listener failed");
+    });
+    const unsubscribe = registry.on("refresh", () => calls++);
+
+    await registry.refresh();
+    unsubscribe();
+    await registry.refresh();
+
+    expect(calls).toBe(1);
+    expect(registry.lastRefreshError).toBeUndefined();
+  });
+
+  it("diffs the current tokens against an earlier snapshot", async () => {
+    const registry = new CachedTokenRegistry({ url: "https://tokens.example/v0/tokens", cacheTtlMs: 3600000 });
+    await registry.refresh();
+    const previous = registry.snapshot();
+
+    response = [apiTokens[0]!];
+    await registry.refresh();
+
+    expect(registry.diff(previous).removed.map((t) => t.assetId)).toEqual(["nep141:wrap.near"]);
+  });
+
+  it("finds the rules affected by a refresh", async () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "wnear",
+          enabled: true,
+          match: { in: { symbol: "wNEAR" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+    const registry = new CachedTokenRegistry({ url: "https://tokens.example/v0/tokens", cacheTtlMs: 3600000 });
+    const engine = new RuleEngine(config, { tokenRegistry: registry });
+    await engine.ensureReady();
+
+    const affected: string[] = [];
+    registry.on("refresh", ({ diff }) => {
+      affected.push(...engine.getAffectedRules(diff).map((a) => a.rule.id));
+    });
+    response = [apiTokens[0]!, { ...apiTokens[1]!, symbol: "NEAR" }];
+    await registry.refresh();
+
+    expect(affected).toEqual(["wnear"]);
+  });
+});
+
+describe("LayeredTokenRegistry", () => {
+  const primary = new StaticTokenRegistry(apiTokens);
+  const fallback = new StaticTokenRegistry([
+    { assetId: "nep141:wrap.near", decimals: 24, blockchain: "near", symbol: "NEAR" },
+    { assetId: "nep141:usdc.e", decimals: 6, blockchain: "arb", symbol: "USDC.e" },
+  ]);
+  const sources = [
+    { name: "1click", registry: primary },
+    { name: "local", registry: fallback },
+  ];
+
+  it("looks tokens up in precedence order", () => {
+    const registry = new LayeredTokenRegistry(sources);
+
+    expect(registry.lookup("nep141:wrap.near")).toEqual({
+      token: primary.getToken("nep141:wrap.near")!,
+      source: "1click",
+      overridden: false,
+    });
+    expect(registry.lookup("nep141:usdc.e")?.source).toBe("local");
+    expect(registry.getToken("nep141:usdc.e")?.symbol).toBe("USDC.e");
+    expect(registry.lookup("unknown")).toBeUndefined();
+  });
+
+  it("applies overrides on top of the sources", () => {
+    const registry = new LayeredTokenRegistry(sources, { "nep141:usdc.e": { symbol: "USDC" } });
+
+    expect(registry.lookup("nep141:usdc.e")).toEqual({
+      token: { assetId: "nep141:usdc.e", decimals: 6, blockchain: "arb", symbol: "USDC" },
+      source: "local",
+      overridden: true,
+    });
+  });
+
+  it("adds tokens missing from every source", () => {
+    const registry = new LayeredTokenRegistry(sources, {
+      "nep141:new-token": { blockchain: "near", symbol: "NEW", decimals: 18, price: 0.5 },
+      "nep141:partial": { symbol: "PART" },
+    });
+
+    expect(registry.lookup("nep141:new-token")).toEqual({
+      token: {
+        assetId: "nep141:new-token",
+        blockchain: "near",
+        symbol: "NEW",
+        decimals: 18,
+        price: 0.5,
+        priceUpdatedAt: expect.any(String),
+      },
+      source: "overrides",
+      overridden: true,
+    });
+    expect(registry.lookup("nep141:partial")).toBeUndefined();
+  });
+
+  it("updates the override table", () => {
+    const registry = new LayeredTokenRegistry(sources);
+    registry.setOverride(USDC_ID, { price: 1 });
+    expect(registry.getToken(USDC_ID)?.price).toBe(1);
+
+    expect(registry.removeOverride(USDC_ID)).toBe(true);
+    expect(registry.getToken(USDC_ID)?.price).toBe(0.999);
+    expect(registry.removeOverride(USDC_ID)).toBe(false);
+  });
+
+  it("uses pinned override prices for USD caps", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near", min_usd: 1 },
+      rules: [],
+    };
+    let now = Date.UTC(2025, 5, 6, 12, 0);
+    const registry = new LayeredTokenRegistry(sources, { "nep141:usdc.e": { price: 0.5 } }, { clock: () => now });
+    const engine = new RuleEngine(config, { tokenRegistry: registry, clock: () => now });
+    const request = { originAsset: "nep141:usdc.e", destinationAsset: USDC_ID, amount: "100000000" };
+
+    // $1 at $0.50 = 2 tokens, above 100 * 20 / 10000 = 0.2 tokens
+    expect(engine.quote(request).feeAmount.amount).toBe("2000000");
+    now += 24 * 3600000;
+    expect(engine.quote(request).feeAmount.amount).toBe("2000000");
+  });
+
+  it("ages override prices that have a priceUpdatedAt", () => {
+    const now = Date.UTC(2025, 5, 6, 12, 0);
+    const registry = new LayeredTokenRegistry(sources, {
+      "nep141:usdc.e": { price: 0.5, priceUpdatedAt: new Date(now - 3 * 3600000).toISOString() },
+    });
+    const token = registry.getToken("nep141:usdc.e")!;
+
+    expect(getUsdPrice(token, now)).toBeUndefined();
+    expect(getUsdPrice(token, now - 2 * 3600000)).toBe(0.5);
+  });
+
+  it("rejects invalid overrides and source names", () => {
+    expect(() => new LayeredTokenRegistry(sources, { x: { decimals: -1 } })).toThrow(
+      'Invalid override for "x": decimals must be a non-negative integer'
+    );
+    expect(() => new LayeredTokenRegistry(sources, { x: { symbol: 1 as unknown as string } })).toThrow(
+      "symbol must be a string"
+    );
+    expect(() => new LayeredTokenRegistry([])).toThrow("needs at least one source");
+    expect(() => new LayeredTokenRegistry([sources[0]!, sources[0]!])).toThrow('Invalid source name "1click"');
+  });
+
+  it("is fresh only when every source is fresh", async () => {
+    let fresh = false;
+    let refreshed = 0;
+    const remote: TokenRegistry = {
+      getToken: () => undefined,
+      isFresh: () => fresh,
+      ensureFresh: async () => {
+        refreshed++;
+        fresh = true;
+      },
+    };
+    const registry = new LayeredTokenRegistry([{ name: "remote", registry: remote }, ...sources]);
+
+    expect(registry.isFresh()).toBe(false);
+    expect(registry.isUsable()).toBe(false);
+    await registry.ensureFresh();
+    expect(refreshed).toBe(1);
+    expect(registry.isFresh()).toBe(true);
+  });
+
+  it("works as a RuleEngine registry", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "usdc",
+          enabled: true,
+          match: { in: { symbol: "USDC" }, out: { symbol: "USDC" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+      ],
+    };
+    const registry = new LayeredTokenRegistry(sources, { "nep141:usdc.e": { symbol: "USDC" } });
+    const engine = new RuleEngine(config, { tokenRegistry: registry });
+
+    expect(engine.match({ originAsset: USDC_ID, destinationAsset: "nep141:usdc.e" }).rule?.id).toBe("usdc");
+  });
+});
@@ -1,8 +1,47 @@
-import type { TokenInfo, TokenRegistry } from "./types";
+import type { TokenChange, TokenChangeField, TokenInfo, TokenRegistry, TokenRegistryDiff } from "./types";
 
 export interface TokenRegistryConfig {
   url: string;
   cacheTtlMs: number;
+  /**
+   * Grace period after `cacheTtlMs` during which the cached tokens stay usable while a
+   * background refresh runs. A failed refresh keeps the cache until the grace period
+   * ends; after that, matching refuses until a refresh succeeds. Defaults to 0.
+   */
+  staleWhileRevalidateMs?: number;
+  /**
+   * After a failed refresh, how long to keep serving stale tokens during the grace
+   * period before starting another background refresh. Defaults to 30 seconds.
+   */
+  refreshRetryMs?: number;
+  /** Returns the current time in milliseconds since the epoch. Defaults to `Date.now`. */
+  clock?: () => number;
+  /**
+   * Storage to save each successful fetch to, and to load on construction. A loaded
+   * snapshot keeps its original fetch time, so it is only fresh for the rest of its TTL.
+   * Missing, corrupt or invalid snapshots are ignored.
+   */
+  snapshotStorage?: TokenSnapshotStorage;
+}
+
+/**
+ * Where `CachedTokenRegistry` keeps its snapshot. `createFileSnapshotStorage` from
+ * `intents-1click-rule-engine/node` keeps it in a file.
+ */
+export interface TokenSnapshotStorage {
+  /** Returns the saved snapshot, or `undefined` if there is none. Errors count as no snapshot. */
+  load(): string | undefined;
+  /** Replaces the saved snapshot. Errors are ignored. */
+  save(snapshot: string): Promise<void>;
+}
+
+const SNAPSHOT_VERSION = 1;
+const DEFAULT_REFRESH_RETRY_MS = 30000;
+
+interface TokenSnapshot {
+  version: number;
+  fetchedAt: number;
+  tokens: TokenInfo[];
 }
 
 interface ApiTokenResponse {
@@ -26,18 +65,181 @@ function isValidTokenResponse(token: unknown): token is ApiTokenResponse {
   );
 }
 
+function toTokenInfo(token: ApiTokenResponse): TokenInfo {
+  const info: TokenInfo = {
+    assetId: token.assetId,
+    blockchain: token.blockchain,
+    symbol: token.symbol,
+    decimals: token.decimals,
+  };
+  if (typeof token.price === "number" && Number.isFinite(token.price)) {
+    info.price = token.price;
+  }
+  if (typeof token.priceUpdatedAt === "string") {
+    info.priceUpdatedAt = token.priceUpdatedAt;
+  }
+  return info;
+}
+
+const CHANGE_FIELDS: TokenChangeField[] = ["blockchain", "symbol", "decimals"];
+
+function byAssetId(a: TokenInfo, b: TokenInfo): number {
+  return a.assetId < b.assetId ? -1 : a.assetId > b.assetId ? 1 : 0;
+}
+
+/**
+ * Compares two token lists by assetId. A token is changed if its `blockchain`, `symbol`
+ * or `decimals` differ; price updates are ignored.
+ */
+export function diffTokens(before: readonly TokenInfo[], after: readonly TokenInfo[]): TokenRegistryDiff {
+  const previous = new Map(before.map((token) => [token.assetId, token]));
+  const current = new Map(after.map((token) => [token.assetId, token]));
+  const diff: TokenRegistryDiff = { added: [], removed: [], changed: [] };
+
+  for (const token of current.values()) {
+    const old = previous.get(token.assetId);
+    if (!old) {
+      diff.added.push(token);
+      continue;
+    }
+    const fields = CHANGE_FIELDS.filter((field) => old[field] !== token[field]);
+    if (fields.length > 0) {
+      diff.changed.push({ assetId: token.assetId, before: old, after: token, fields });
+    }
+  }
+  for (const token of previous.values()) {
+    if (!current.has(token.assetId)) diff.removed.push(token);
+  }
+
+  diff.added.sort(byAssetId);
+  diff.removed.sort(byAssetId);
+  diff.changed.sort((a, b) => byAssetId(a.after, b.after));
+  return diff;
+}
+
+export interface TokenRefreshEvent {
+  diff: TokenRegistryDiff;
+  /** True for the first load, when there were no tokens to compare with. */
+  initial: boolean;
+  fetchedAt: number;
+}
+
+/** Events of `CachedTokenRegistry`, emitted after each successful refresh. */
+export interface TokenRegistryEvents {
+  /** Every refresh, including the first. */
+  refresh: TokenRefreshEvent;
+  /** Each token that was not in the previous list. Not emitted for the first load. */
+  added: TokenInfo;
+  /** Each token that is no longer listed. */
+  removed: TokenInfo;
+  /** Each token whose `blockchain`, `symbol` or `decimals` changed. */
+  changed: TokenChange;
+}
+
+type TokenRegistryListener<E extends keyof TokenRegistryEvents> = (event: TokenRegistryEvents[E]) => void;
+
 export class CachedTokenRegistry implements TokenRegistry {
   private config: TokenRegistryConfig;
   private cache: Map<string, TokenInfo> = new Map();
   private lastFetchTime: number = 0;
   private refreshPromise: Promise<void> | null = null;
+  private refreshError: Error | undefined;
+  private refreshFailedAt: number = 0;
+  private listeners: Map<keyof TokenRegistryEvents, Set<(event: never) => void>> = new Map();
 
   constructor(config: TokenRegistryConfig) {
     this.config = config;
+    if (config.snapshotStorage) {
+      this.loadSnapshot(config.snapshotStorage);
+    }
+  }
+
+  private loadSnapshot(storage: TokenSnapshotStorage): void {
+    let snapshot: unknown;
+    try {
+      const text = storage.load();
+      if (text === undefined) return;
+      snapshot = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (typeof snapshot !== "object" || snapshot === null) return;
+    const { version, fetchedAt, tokens } = snapshot as Partial<TokenSnapshot>;
+    if (version !== SNAPSHOT_VERSION || typeof fetchedAt !== "number" || !Number.isFinite(fetchedAt)) return;
+    if (fetchedAt <= 0 || fetchedAt > this.now() || !Array.isArray(tokens) || !tokens.every(isValidTokenResponse)) {
+      return;
+    }
+
+    this.cache = new Map(tokens.map((token) => [token.assetId, toTokenInfo(token)]));
+    this.lastFetchTime = fetchedAt;
+  }
+
+  private async saveSnapshot(storage: TokenSnapshotStorage): Promise<void> {
+    const snapshot: TokenSnapshot = {
+      version: SNAPSHOT_VERSION,
+      fetchedAt: this.lastFetchTime,
+      tokens: [...this.cache.values()],
+    };
+    try {
+      await storage.save(JSON.stringify(snapshot));
+    } catch {
+      // The snapshot only speeds up cold starts; the fetched tokens are in memory
+    }
+  }
+
+  /**
+   * Subscribes to registry events. Listeners run synchronously after the new tokens are
+   * in place; errors they throw are ignored. Returns a function that unsubscribes.
+   */
+  on<E extends keyof TokenRegistryEvents>(event: E, listener: TokenRegistryListener<E>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<E extends keyof TokenRegistryEvents>(event: E, payload: TokenRegistryEvents[E]): void {
+    for (const listener of (this.listeners.get(event) ?? []) as Set<TokenRegistryListener<E>>) {
+      try {
+        listener(payload);
+      } catch {
+        // A failing listener must not break the refresh or the other listeners
+      }
+    }
+  }
+
+  /** The current tokens, e.g. to pass to `diff` after a later refresh. */
+  snapshot(): TokenInfo[] {
+    return [...this.cache.values()];
+  }
+
+  /** Changes from `previous` (an earlier `snapshot()`) to the current tokens. */
+  diff(previous: readonly TokenInfo[]): TokenRegistryDiff {
+    return diffTokens(previous, this.snapshot());
+  }
+
+  private now(): number {
+    return this.config.clock ? this.config.clock() : Date.now();
   }
 
   isFresh(): boolean {
-    return this.lastFetchTime > 0 && Date.now() - this.lastFetchTime < this.config.cacheTtlMs;
+    return this.lastFetchTime > 0 && this.now() - this.lastFetchTime < this.config.cacheTtlMs;
+  }
+
+  /** Returns true if the tokens are fresh or stale within `staleWhileRevalidateMs`. */
+  isUsable(): boolean {
+    const maxAge = this.config.cacheTtlMs + (this.config.staleWhileRevalidateMs ?? 0);
+    return this.lastFetchTime > 0 && this.now() - this.lastFetchTime < maxAge;
+  }
+
+  /** Error of the most recent refresh if it failed, `undefined` once a refresh succeeds. */
+  get lastRefreshError(): Error | undefined {
+    return this.refreshError;
   }
 
   async refresh(): Promise<void> {
@@ -49,6 +251,11 @@ export class CachedTokenRegistry implements TokenRegistry {
     this.refreshPromise = this.doRefresh();
     try {
       await this.refreshPromise;
+      this.refreshError = undefined;
+    } catch (error) {
+      this.refreshError = error instanceof Error ? error : new Error(String(error));
+      this.refreshFailedAt = this.now();
+      throw error;
     } finally {
       this.refreshPromise = null;
     }
@@ -74,26 +281,52 @@ export class CachedTokenRegistry implements TokenRegistry {
         invalidTokens.push(i);
         continue;
       }
-      newCache.set(token.assetId, {
-        assetId: token.assetId,
-        blockchain: token.blockchain,
-        symbol: token.symbol,
-        decimals: token.decimals,
-      });
+      newCache.set(token.assetId, toTokenInfo(token));
     }
 
     if (invalidTokens.length > 0 && newCache.size === 0) {
       throw new Error(`Invalid token registry response: all ${data.length} tokens failed validation`);
     }
 
+    const previous = this.snapshot();
+    const initial = this.lastFetchTime === 0;
     this.cache = newCache;
-    this.lastFetchTime = Date.now();
+    this.lastFetchTime = this.now();
+
+    if (this.config.snapshotStorage) {
+      await this.saveSnapshot(this.config.snapshotStorage);
+    }
+    this.emitChanges(previous, initial);
   }
 
+  private emitChanges(previous: TokenInfo[], initial: boolean): void {
+    const diff = this.diff(previous);
+    if (!initial) {
+      diff.added.forEach((token) => this.emit("added", token));
+      diff.removed.forEach((token) => this.emit("removed", token));
+      diff.changed.forEach((change) => this.emit("changed", change));
+    }
+    this.emit("refresh", { diff, initial, fetchedAt: this.lastFetchTime });
+  }
+
+  /**
+   * Refreshes the tokens if they are stale. Within the `staleWhileRevalidateMs` grace
+   * period the refresh runs in the background and this returns immediately; failures
+   * are recorded in `lastRefreshError` instead of thrown, and no further background
+   * refresh starts until `refreshRetryMs` has passed.
+   */
   async ensureFresh(): Promise<void> {
-    if (!this.isFresh()) {
-      await this.refresh();
+    if (this.isFresh()) return;
+    if (this.isUsable()) {
+      if (!this.isRetryPending()) this.refresh().catch(() => {});
+      return;
     }
+    await this.refresh();
+  }
+
+  private isRetryPending(): boolean {
+    const retryMs = this.config.refreshRetryMs ?? DEFAULT_REFRESH_RETRY_MS;
+    return this.refreshError !== undefined && this.now() - this.refreshFailedAt < retryMs;
   }
 
   getToken(assetId: string): TokenInfo | undefined {
@@ -105,6 +338,223 @@ export class CachedTokenRegistry implements TokenRegistry {
   }
 }
 
+export interface StaticTokenRegistryOptions {
+  /** Returns the current time in milliseconds since the epoch, used to stamp pinned prices. Defaults to `Date.now`. */
+  clock?: () => number;
+}
+
+/**
+ * Token registry built from an in-memory token list in the 1Click `/v0/tokens` format,
+ * for tests and offline use. It is always fresh and never fetches. Tokens are checked
+ * like `CachedTokenRegistry` checks API responses, but any invalid token throws.
+ * A `price` without `priceUpdatedAt` is pinned: it counts as current at every lookup.
+ */
+export class StaticTokenRegistry implements TokenRegistry {
+  private tokens: Map<string, TokenInfo> = new Map();
+  private clock: () => number;
+
+  constructor(tokens: readonly unknown[] = [], options: StaticTokenRegistryOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    if (!Array.isArray(tokens)) {
+      throw new Error(`Invalid token list: expected array, got ${typeof tokens}`);
+    }
+    tokens.forEach((token, i) => {
+      const info = StaticTokenRegistry.parseToken(token, `token at index ${i}`);
+      this.tokens.set(info.assetId, info);
+    });
+  }
+
+  /** Creates a registry from the JSON text of a `/v0/tokens` response. */
+  static fromJson(json: string, options?: StaticTokenRegistryOptions): StaticTokenRegistry {
+    return new StaticTokenRegistry(JSON.parse(json), options);
+  }
+
+  private static parseToken(token: unknown, description: string): TokenInfo {
+    if (!isValidTokenResponse(token)) {
+      throw new Error(
+        `Invalid ${description}: expected string assetId, blockchain and symbol and numeric decimals`
+      );
+    }
+    return toTokenInfo(token);
+  }
+
+  isFresh(): boolean {
+    return true;
+  }
+
+  async ensureFresh(): Promise<void> {}
+
+  getToken(assetId: string): TokenInfo | undefined {
+    const token = this.tokens.get(assetId);
+    if (token?.price === undefined || token.priceUpdatedAt !== undefined) return token;
+    return { ...token, priceUpdatedAt: new Date(this.clock()).toISOString() };
+  }
+
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  /** Adds a token. Throws if a token with the same assetId exists; use `overrideToken` to change it. */
+  addToken(token: TokenInfo): void {
+    const info = StaticTokenRegistry.parseToken(token, "token");
+    if (this.tokens.has(info.assetId)) {
+      throw new Error(`Token "${info.assetId}" already exists`);
+    }
+    this.tokens.set(info.assetId, info);
+  }
+
+  /** Removes a token. Returns false if there was no token with that assetId. */
+  removeToken(assetId: string): boolean {
+    return this.tokens.delete(assetId);
+  }
+
+  /**
+   * Replaces fields of an existing token, e.g. to pin a price with `{ price, priceUpdatedAt: undefined }`.
+   * Fields set to `undefined` are removed. Throws if the token does not exist.
+   */
+  overrideToken(assetId: string, overrides: Partial<Omit<TokenInfo, "assetId">>): TokenInfo {
+    const existing = this.tokens.get(assetId);
+    if (!existing) {
+      throw new Error(`Token "${assetId}" does not exist`);
+    }
+    const info = StaticTokenRegistry.parseToken({ ...existing, ...overrides, assetId }, `override of "${assetId}"`);
+    this.tokens.set(assetId, info);
+    return info;
+  }
+}
+
+/**
+ * Fields to replace on a token. Overrides for unlisted tokens need `blockchain`, `symbol` and `decimals`.
+ * A `price` without `priceUpdatedAt` is pinned: it counts as current at every lookup.
+ * With `priceUpdatedAt` it ages like a fetched price and stops being used for USD
+ * conversions once older than `maxPriceAgeMs`.
+ */
+export type TokenOverride = Partial<Omit<TokenInfo, "assetId">>;
+
+export interface LayeredTokenRegistryOptions {
+  /** Returns the current time in milliseconds since the epoch, used to stamp pinned prices. Defaults to `Date.now`. */
+  clock?: () => number;
+}
+
+export interface TokenSource {
+  /** Reported as `TokenLookup.source` for tokens found in this registry. */
+  name: string;
+  registry: TokenRegistry;
+}
+
+export interface TokenLookup {
+  token: TokenInfo;
+  /** Name of the source the token came from, or `"overrides"` if only the override table lists it. */
+  source: string;
+  /** Whether an override changed or created the token. */
+  overridden: boolean;
+}
+
+export const OVERRIDES_SOURCE = "overrides";
+
+/**
+ * Token registry that looks tokens up in several sources in precedence order (first
+ * source wins) and applies a local override table on top, e.g. to add a missing token
+ * or to normalise a symbol. It is fresh only when every source is fresh.
+ *
+ * It has no `size`: sources are only searched by asset ID, so tokens listed by several
+ * sources cannot be counted once, and `RuleEngine.getTokenRegistrySize()` returns 0.
+ */
+export class LayeredTokenRegistry implements TokenRegistry {
+  private sources: TokenSource[];
+  private overrides: Map<string, TokenOverride> = new Map();
+  private clock: () => number;
+
+  constructor(
+    sources: TokenSource[],
+    overrides: Record<string, TokenOverride> = {},
+    options: LayeredTokenRegistryOptions = {}
+  ) {
+    if (!Array.isArray(sources) || sources.length === 0) {
+      throw new Error("LayeredTokenRegistry needs at least one source");
+    }
+    const names = new Set<string>();
+    for (const { name } of sources) {
+      if (names.has(name) || name === OVERRIDES_SOURCE) {
+        throw new Error(`Invalid source name "${name}": names must be unique and not "${OVERRIDES_SOURCE}"`);
+      }
+      names.add(name);
+    }
+    this.sources = [...sources];
+    this.clock = options.clock ?? Date.now;
+    for (const [assetId, override] of Object.entries(overrides)) {
+      this.setOverride(assetId, override);
+    }
+  }
+
+  /** Sets or replaces the override of a token. */
+  setOverride(assetId: string, override: TokenOverride): void {
+    const invalid = (message: string) => new Error(`Invalid override for "${assetId}": ${message}`);
+    if (typeof override !== "object" || override === null) throw invalid("expected an object");
+    if (override.blockchain !== undefined && typeof override.blockchain !== "string") {
+      throw invalid("blockchain must be a string");
+    }
+    if (override.symbol !== undefined && typeof override.symbol !== "string") {
+      throw invalid("symbol must be a string");
+    }
+    if (override.decimals !== undefined && (!Number.isInteger(override.decimals) || override.decimals < 0)) {
+      throw invalid("decimals must be a non-negative integer");
+    }
+    if (override.price !== undefined && (typeof override.price !== "number" || !Number.isFinite(override.price))) {
+      throw invalid("price must be a finite number");
+    }
+    if (override.priceUpdatedAt !== undefined && typeof override.priceUpdatedAt !== "string") {
+      throw invalid("priceUpdatedAt must be a string");
+    }
+    this.overrides.set(assetId, { ...override });
+  }
+
+  /** Removes the override of a token. Returns false if there was none. */
+  removeOverride(assetId: string): boolean {
+    return this.overrides.delete(assetId);
+  }
+
+  /** Looks up a token and reports which source it came from. */
+  lookup(assetId: string): TokenLookup | undefined {
+    const override = this.resolveOverride(assetId);
+    for (const { name, registry } of this.sources) {
+      const token = registry.getToken(assetId);
+      if (token) {
+        return override
+          ? { token: { ...token, ...override, assetId }, source: name, overridden: true }
+          : { token, source: name, overridden: false };
+      }
+    }
+
+    const { blockchain, symbol, decimals } = override ?? {};
+    if (blockchain === undefined || symbol === undefined || decimals === undefined) return undefined;
+    return { token: { ...override, assetId, blockchain, symbol, decimals }, source: OVERRIDES_SOURCE, overridden: true };
+  }
+
+  private resolveOverride(assetId: string): TokenOverride | undefined {
+    const override = this.overrides.get(assetId);
+    if (override?.price === undefined || override.priceUpdatedAt !== undefined) return override;
+    return { ...override, priceUpdatedAt: new Date(this.clock()).toISOString() };
+  }
+
+  getToken(assetId: string): TokenInfo | undefined {
+    return this.lookup(assetId)?.token;
+  }
+
+  isFresh(): boolean {
+    return this.sources.every(({ registry }) => registry.isFresh());
+  }
+
+  /** Every source is usable (or fresh, for sources without `isUsable`). */
+  isUsable(): boolean {
+    return this.sources.every(({ registry }) => registry.isUsable?.() ?? registry.isFresh());
+  }
+
+  async ensureFresh(): Promise<void> {
+    await Promise.all(this.sources.map(({ registry }) => registry.ensureFresh()));
+  }
+}
+
 const DEFAULT_TOKEN_REGISTRY_URL = "https://1click.chaindefuser.com/v0/tokens";
 const DEFAULT_CACHE_TTL_MS = 3600000; // 1 hour
 
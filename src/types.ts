@@ -3,6 +3,10 @@ export interface TokenInfo {
   blockchain: string;
   symbol: string;
   decimals: number;
+  /** USD price reported by the token registry, if any. */
+  price?: number;
+  /** ISO 8601 timestamp of the last price update. */
+  priceUpdatedAt?: string;
 }
 
 /**
@@ -16,73 +20,395 @@ export interface TokenInfo {
  * - Exact match: `"eth"` matches only `"eth"`
  * - Wildcard: `"*"` matches any value
  * - Negation: `"!eth"` matches any value except `"eth"`
+ * - Glob: `"nep141:eth-*"` (`*` any run of characters, `?` exactly one)
+ * - Regex: `"/^USD[CT]$/"`, optionally with `i`, `m`, `s` or `u` flags
  * - Array (OR logic): `["eth", "base"]` matches `"eth"` or `"base"`
+ * - Named set: `"@stablecoins"` matches any member of `FeeConfig.sets.stablecoins`
+ *
+ * Globs, regular expressions and set references can be negated (`"!W*"`, `"!/^USD/"`, `"!@l2s"`).
+ *
+ * Because array entries are OR-combined, `["!eth", "!base"]` matches every chain.
+ * Use `exclude` to reject several values: `{ blockchain: "*", exclude: { blockchain: ["eth", "base"] } }`.
+ *
+ * `min` and `max` bound the swap amount (`SwapRequest.amount`, base units of the
+ * origin token), inclusive on both ends. A matcher with bounds never matches a
+ * request that has no amount.
+ *
+ * `minUsd` and `maxUsd` bound the USD value of the swap, computed from the request
+ * amount and the origin token's registry price (`amount / 10^decimals * price`).
+ * A matcher with USD bounds never matches when the request has no amount or the
+ * origin token has no price, or its price is older than the matcher's maximum price age.
  */
 export interface TokenMatcher {
   blockchain?: string | string[];
   symbol?: string | string[];
   assetId?: string | string[];
+  /** Tokens matching any of these patterns are rejected, even if the fields above match. */
+  exclude?: TokenExclusion;
+  /** Minimum swap amount in base units (integer string, inclusive). */
+  min?: string;
+  /** Maximum swap amount in base units (integer string, inclusive). */
+  max?: string;
+  /** Minimum swap value in USD (inclusive). */
+  minUsd?: number;
+  /** Maximum swap value in USD (inclusive). */
+  maxUsd?: number;
+}
+
+/**
+ * Exclusion list for a `TokenMatcher`. A token is excluded if any listed field
+ * matches any of its patterns. Supports the same pattern syntax as `TokenMatcher`.
+ */
+export interface TokenExclusion {
+  blockchain?: string | string[];
+  symbol?: string | string[];
+  assetId?: string | string[];
 }
 
+/**
+ * Match condition of a rule. `in` is tested against the origin token and `out`
+ * against the destination token. Every key that is present must hold (implicit AND),
+ * so a plain `{ in, out }` matcher keeps its usual meaning.
+ *
+ * Conditions can be nested into a boolean expression tree:
+ * - `all`: every child condition must match
+ * - `any`: at least one child condition must match (evaluated in order)
+ * - `not`: the child condition must not match
+ *
+ * `route` constrains the relationship between the origin and destination tokens.
+ *
+ * At the top level of a rule, `in` and `out` are both required unless the
+ * condition uses `all`, `any`, `not` or `route`.
+ */
 export interface RuleMatch {
-  in: TokenMatcher;
-  out: TokenMatcher;
+  in?: TokenMatcher;
+  out?: TokenMatcher;
+  route?: RoutePredicates;
+  context?: ContextMatcher;
+  all?: RuleMatch[];
+  any?: RuleMatch[];
+  not?: RuleMatch;
+}
+
+/**
+ * Predicates over the origin/destination pair. Each predicate that is set must
+ * evaluate to the given value, e.g. `{ sameSymbol: true, crossChain: true }`
+ * matches USDC → USDC between different chains.
+ */
+export interface RoutePredicates {
+  /** Both tokens are on the same blockchain. */
+  sameBlockchain?: boolean;
+  /** Both tokens have the same symbol. */
+  sameSymbol?: boolean;
+  /** Both tokens have the same assetId. */
+  sameAsset?: boolean;
+  /** The tokens are on different blockchains (the inverse of `sameBlockchain`). */
+  crossChain?: boolean;
 }
 
-export interface Fee {
+/**
+ * Patterns for `SwapRequest.context` values, keyed by context field, e.g.
+ * `{ partnerId: "acme", appId: ["wallet", "!wallet-beta"] }`. Values use the same
+ * pattern syntax as `TokenMatcher` fields. All listed fields must match. A field
+ * missing from the request matches only negations, so `"!acme"` includes requests
+ * without that field, `"*"` requires it to be present and `"!*"` requires it absent.
+ */
+export type ContextMatcher = Record<string, string | string[]>;
+
+/** Bounds on the fee amount of a single fee entry, applied by `calculateFee`. */
+export interface FeeCaps {
+  /** Minimum fee in base units of the fee-bearing (origin) token, as an integer string. */
+  min_amount?: string;
+  /** Maximum fee in base units of the fee-bearing (origin) token, as an integer string. */
+  max_amount?: string;
+  /** Minimum fee in USD. Needs a current price for the fee-bearing token. */
+  min_usd?: number;
+  /** Maximum fee in USD. Needs a current price for the fee-bearing token. */
+  max_usd?: number;
+}
+
+/** A percentage of the swap amount. */
+export interface BpsFee extends FeeCaps {
   type: "bps";
   bps: number;
   recipient: string;
 }
 
+/** A flat amount, independent of the swap amount. */
+export interface FixedFee {
+  type: "fixed";
+  /** Fee in base units of `asset`, as an integer string. */
+  amount: string;
+  /** Asset ID the amount is denominated in. */
+  asset: string;
+  recipient: string;
+}
+
+export interface FeeTier {
+  /** Inclusive upper bound of the tier in base units. Omitted on the last tier only. */
+  up_to?: string;
+  bps: number;
+}
+
+/**
+ * Bps brackets over the swap amount. Tiers are ordered by `up_to` and each covers
+ * amounts above the previous tier's `up_to`.
+ *
+ * - `flat`: the whole amount is charged at the bps of the tier it falls into.
+ * - `marginal`: each part of the amount is charged at the bps of the tier it falls into.
+ */
+export interface TieredFee extends FeeCaps {
+  type: "tiered";
+  method: "flat" | "marginal";
+  tiers: FeeTier[];
+  recipient: string;
+}
+
+export type Fee = BpsFee | FixedFee | TieredFee;
+
 export interface Rule {
   id: string;
   enabled: boolean;
   priority?: number;
   description?: string;
   match: RuleMatch;
-  fee: Fee | Fee[];
+  /**
+   * Also match with origin and destination swapped, so `in` is tested against the
+   * destination token and `out` against the origin token. The forward orientation
+   * is tried first. Amount and USD bounds always refer to the request amount.
+   */
+  bidirectional?: boolean;
+  /**
+   * How the rule affects the fee. Defaults to `"override"`.
+   *
+   * - `override`: a base rule; its `fee` replaces the default fee.
+   * - `add`: a modifier that adds each `fee` entry's (signed) `bps` to the same recipient,
+   *   or adds the recipient if it is not part of the fee yet.
+   * - `multiply`: a modifier that multiplies every recipient's `bps` by `multiplier`.
+   *
+   * Modifiers apply on top of the chosen base fee (or the default fee) in priority order.
+   */
+  mode?: RuleMode;
+  /** Required for `override` and `add` rules. Not used by `multiply` rules. */
+  fee?: Fee | Fee[];
+  /** Factor for `multiply` rules, e.g. `0.75` for a 25% discount. */
+  multiplier?: number;
   valid_from?: string;
   valid_until?: string;
+  /** Recurring activity windows, applied on top of `valid_from`/`valid_until`. */
+  schedule?: RuleSchedule;
+}
+
+export type RuleMode = "override" | "add" | "multiply";
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+/**
+ * A recurring time window, evaluated in the schedule's time zone. Either a
+ * day-of-week/time-of-day range or a cron-like expression.
+ *
+ * - `days`/`start`/`end`: active from `start` (inclusive) to `end` (exclusive) on each
+ *   listed day. If `end` is not after `start`, the window runs past midnight into the next day.
+ * - `cron`: five fields (`minute hour day-of-month month day-of-week`); the window
+ *   covers every minute that matches, e.g. `"* 18-19 * * 1-5"` for weekdays 18:00-19:59.
+ */
+export interface ScheduleWindow {
+  /** Days the window starts on. Defaults to every day. */
+  days?: Weekday[];
+  /** Start time as `"HH:MM"`. Defaults to `"00:00"`. */
+  start?: string;
+  /** End time as `"HH:MM"` (`"24:00"` allowed). Defaults to `"24:00"`. */
+  end?: string;
+  /** Cron-like expression. Cannot be combined with `days`, `start` or `end`. */
+  cron?: string;
+}
+
+/**
+ * Recurring schedule for a rule. The rule is active when the current time falls inside
+ * one of the `active` windows (or `active` is omitted) and inside none of the `blackout` windows.
+ */
+export interface RuleSchedule {
+  /** IANA time zone name, e.g. `"Europe/Berlin"`. Defaults to `"UTC"`. */
+  timezone?: string;
+  active?: ScheduleWindow[];
+  blackout?: ScheduleWindow[];
 }
 
 export interface FeeConfig {
   version: string;
   default_fee: Fee | Fee[];
   rules: Rule[];
+  /**
+   * Named value lists that matcher values reference as `"@name"` or `"!@name"`.
+   * Members are values or patterns, and may reference other sets (`"@other"`).
+   */
+  sets?: Record<string, string[]>;
+  /** Additional `SwapRequest.context` keys that rules may match on, besides the known ones. */
+  context_keys?: string[];
+  /** How to choose between several matching rules. Defaults to `"first-match"`. */
+  strategy?: ResolutionStrategy;
+  /** How `RuleEngine` fee calculations round fractional base units. Defaults to `"floor"`. */
+  rounding?: RoundingMode;
 }
 
+/**
+ * How the matcher chooses between several matching rules:
+ *
+ * - `first-match`: the first matching rule by priority (highest first), then array order.
+ * - `most-specific`: the rule whose `in`/`out` matchers are most specific
+ *   (assetId > symbol > blockchain > wildcard).
+ * - `lowest-fee` / `highest-fee`: the rule with the lowest/highest total bps.
+ *
+ * Ties are broken by priority, then array order.
+ */
+export type ResolutionStrategy = "first-match" | "most-specific" | "lowest-fee" | "highest-fee";
+
+/**
+ * How a fee with a fractional part is rounded to whole base units.
+ *
+ * - `floor`: down (in the user's favour)
+ * - `ceil`: up
+ * - `half-up`: to the nearest unit, halves up
+ * - `half-even`: to the nearest unit, halves to the even neighbour
+ */
+export type RoundingMode = "floor" | "ceil" | "half-up" | "half-even";
+
 export interface SwapRequest {
   originAsset: string;
   destinationAsset: string;
   amount?: string;
+  context?: SwapContext;
+}
+
+/** Attributes of the party requesting the swap, matched by `RuleMatch.context`. */
+export interface SwapContext {
+  partnerId?: string;
+  appId?: string;
+  userAccount?: string;
+  referralCode?: string;
+  /** Quote type, e.g. `"EXACT_INPUT"` or `"EXACT_OUTPUT"`. */
+  swapType?: string;
+  /** Custom keys, which must be listed in `FeeConfig.context_keys` to be matched on. */
+  [key: string]: string | undefined;
+}
+
+export interface MatchOptions {
+  /**
+   * Evaluate `valid_from`, `valid_until` and `schedule` at this instant instead of the
+   * current time. Token prices are still checked for staleness against the current time.
+   */
+  at?: Date | number;
 }
 
 export interface TokenMatchInfo {
   token: TokenInfo;
+  /**
+   * Path of the matcher within `rule.match` that produced this match,
+   * e.g. `"in"` or `"any[1].in"`.
+   */
+  branch: string;
   matchedBy: {
     assetId?: boolean;
     blockchain?: boolean;
     symbol?: boolean;
+    exclude?: boolean;
+    amount?: boolean;
+    usd?: boolean;
+  };
+}
+
+export interface RouteMatchInfo {
+  /** Path of the route predicates within `rule.match`, e.g. `"route"` or `"any[0].route"`. */
+  branch: string;
+  matchedBy: {
+    sameBlockchain?: boolean;
+    sameSymbol?: boolean;
+    sameAsset?: boolean;
+    crossChain?: boolean;
   };
 }
 
+export interface ContextMatchInfo {
+  /** Path of the context matcher within `rule.match`, e.g. `"context"` or `"all[1].context"`. */
+  branch: string;
+  /** Context keys that were matched. */
+  matchedBy: Record<string, boolean>;
+}
+
+export type MatchDirection = "forward" | "reverse";
+
+export interface AppliedModifier {
+  rule: Rule;
+  mode: Exclude<RuleMode, "override">;
+  direction: MatchDirection;
+  /**
+   * Total bps before and after this modifier was applied, using the effective rate of
+   * tiered fees for the request amount. Undefined if the fee has a fixed entry, or a
+   * tiered entry and the request has no amount.
+   */
+  bpsBefore?: number;
+  bpsAfter?: number;
+}
+
 export interface MatchResult {
   matched: boolean;
   rule?: Rule;
   fee: Fee | Fee[];
+  /** Strategy that chose `rule`. Only set when a rule matched. */
+  strategy?: ResolutionStrategy;
+  /**
+   * `add`/`multiply` rules applied to the base fee, in the order they were applied.
+   * `fee` already includes them. Only set when at least one modifier matched.
+   */
+  modifiers?: AppliedModifier[];
   matchDetails?: {
     originToken: TokenInfo;
     destinationToken: TokenInfo;
+    /**
+     * Orientation the rule matched in. `"reverse"` means a bidirectional rule matched
+     * with `in` tested against the destination token and `out` against the origin token.
+     */
+    direction?: MatchDirection;
     in?: TokenMatchInfo;
     out?: TokenMatchInfo;
+    route?: RouteMatchInfo;
+    context?: ContextMatchInfo;
   };
 }
 
+/** Token fields whose changes `TokenRegistryDiff` reports. Price updates are not changes. */
+export type TokenChangeField = "blockchain" | "symbol" | "decimals";
+
+export interface TokenChange {
+  assetId: string;
+  before: TokenInfo;
+  after: TokenInfo;
+  fields: TokenChangeField[];
+}
+
+/** Differences between two token lists, each ordered by assetId. */
+export interface TokenRegistryDiff {
+  added: TokenInfo[];
+  removed: TokenInfo[];
+  changed: TokenChange[];
+}
+
+/** A rule whose matching may change because of a `TokenRegistryDiff`. */
+export interface AffectedRule {
+  rule: Rule;
+  /** The added, removed or changed tokens that affect the rule. */
+  assetIds: string[];
+}
+
 export interface TokenRegistry {
   getToken(assetId: string): TokenInfo | undefined;
   /** Returns true if the registry has been loaded and is not stale. */
   isFresh(): boolean;
+  /**
+   * Returns true if the tokens may still be used although `isFresh()` is false, e.g.
+   * during a stale-while-revalidate grace period. Optional; defaults to `isFresh()`.
+   */
+  isUsable?(): boolean;
   /** Ensure the cache is fresh, refreshing if needed. */
   ensureFresh(): Promise<void>;
   /** Number of tokens in the registry. Optional. */
@@ -691,4 +691,965 @@ describe("validateConfig", () => {
       expect(result.valid).toBe(true);
     }
   });
+
+  it("accepts integer string amount bounds", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bounded",
+          enabled: true,
+          match: {
+            in: { symbol: "USDC", min: "1000000", max: "1000000000" },
+            out: { symbol: "USDC" },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects non-integer amount bounds", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bounded",
+          enabled: true,
+          match: {
+            in: { symbol: "USDC", min: "1.5" },
+            out: { symbol: "USDC", max: 100 as unknown as string },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.in.min")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.out.max")).toBe(true);
+  });
+
+  it("rejects min greater than max", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bounded",
+          enabled: true,
+          match: {
+            in: { symbol: "USDC", min: "100000000000000000001", max: "100000000000000000000" },
+            out: { symbol: "USDC" },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.in.min" && e.message.includes("less than or equal to max"))).toBe(true);
+  });
+
+  it("rejects invalid USD bounds", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "usd-tier",
+          enabled: true,
+          match: {
+            in: { blockchain: "*", minUsd: -1 },
+            out: { blockchain: "*", minUsd: 500, maxUsd: 100 },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.in.minUsd")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.out.minUsd" && e.message.includes("less than or equal to maxUsd"))).toBe(true);
+  });
+
+  it("accepts glob and regex patterns", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "patterns",
+          enabled: true,
+          match: {
+            in: { assetId: "nep141:eth-*", symbol: "!/^W/" },
+            out: { symbol: ["/^USD[CT]$/i", "DA?"] },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects invalid regex patterns", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bad-regex",
+          enabled: true,
+          match: {
+            in: { symbol: "/^USD[/" },
+            out: { symbol: ["USDC", "!/(unclosed/"] },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.in.symbol" && e.message.includes("Invalid pattern"))).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.out.symbol" && e.message.includes("Invalid pattern"))).toBe(true);
+  });
+
+  it("rejects unsupported regex flags", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "global-flag",
+          enabled: true,
+          match: {
+            in: { symbol: "/^USDC$/g" },
+            out: { symbol: "USDC" },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.message.includes("unsupported regex flags"))).toBe(true);
+  });
+
+  it("accepts exclusion lists", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "exclusions",
+          enabled: true,
+          match: {
+            in: { exclude: { blockchain: ["eth", "base"] } },
+            out: { symbol: "USDC", exclude: { assetId: "nep141:sol-*" } },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("rejects empty exclusion lists", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "empty-exclusions",
+          enabled: true,
+          match: {
+            in: { symbol: "USDC", exclude: {} },
+            out: { symbol: "USDC", exclude: { blockchain: [] } },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.in.exclude")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.out.exclude.blockchain")).toBe(true);
+  });
+
+  it("warns about arrays of negations that match every value", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "always-true",
+          enabled: true,
+          match: {
+            in: { blockchain: ["!eth", "!base"] },
+            out: { symbol: ["!USDC", "USDC"] },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.some((w) => w.path === "rules[0].match.in.blockchain" && w.message.includes("exclude.blockchain"))).toBe(true);
+    expect(result.warnings.some((w) => w.path === "rules[0].match.out.symbol")).toBe(true);
+  });
+
+  it("does not warn about a single negation in an array", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "single-negation",
+          enabled: true,
+          match: {
+            in: { blockchain: ["!eth", "base"] },
+            out: { symbol: ["!USDC", "!USDC"] },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("accepts composite match expressions without top-level in/out", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "composite",
+          enabled: true,
+          match: {
+            any: [{ in: { symbol: "USDC", blockchain: "eth" } }, { in: { symbol: "USDT", blockchain: "arb" } }],
+            not: { out: { blockchain: "sol" } },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+  });
+
+  it("validates composite match expressions recursively", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bad-composite",
+          enabled: true,
+          match: {
+            all: [{ in: {} }, { any: [] }, {}],
+            not: { out: { symbol: "/[/" } },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.all[0].in")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.all[1].any")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.all[2]")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.not.out.symbol")).toBe(true);
+  });
+
+  it("still requires in and out for non-composite matches", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "only-in",
+          enabled: true,
+          match: { in: { symbol: "USDC" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    } as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.out")).toBe(true);
+  });
+
+  it("warns about always-true arrays inside composite expressions", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "nested-warning",
+          enabled: true,
+          match: {
+            any: [{ in: { blockchain: ["!eth", "!base"] } }],
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.warnings.some((w) => w.path === "rules[0].match.any[0].in.blockchain")).toBe(true);
+  });
+
+  it("accepts route predicates without in/out", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "same-chain",
+          enabled: true,
+          match: { route: { sameBlockchain: true } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects invalid route predicates", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bad-route",
+          enabled: true,
+          match: { route: { sameChain: true, sameSymbol: "yes" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+        {
+          id: "empty-route",
+          enabled: true,
+          match: { route: {} },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.route.sameChain")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.route.sameSymbol")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[1].match.route")).toBe(true);
+  });
+
+  it("rejects contradictory sameBlockchain and crossChain", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "contradiction",
+          enabled: true,
+          match: { route: { sameBlockchain: true, crossChain: true } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.message.includes("contradict"))).toBe(true);
+  });
+
+  it("warns when a rule mirrors a bidirectional rule with the same fee", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "eth-to-polygon",
+          enabled: true,
+          bidirectional: true,
+          match: { in: { blockchain: "eth" }, out: { blockchain: "polygon" } },
+          fee: { type: "bps", bps: 15, recipient: "fees.near" },
+        },
+        {
+          id: "polygon-to-eth",
+          enabled: true,
+          match: { out: { blockchain: "eth" }, in: { blockchain: "polygon" } },
+          fee: { bps: 15, type: "bps", recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.some((w) => w.path === "rules[1]" && w.message.includes("redundant"))).toBe(true);
+  });
+
+  it("does not warn when the mirrored rule has a different priority, validity or schedule", () => {
+    const bidirectional: FeeConfig["rules"][number] = {
+      id: "eth-to-polygon",
+      enabled: true,
+      bidirectional: true,
+      match: { in: { blockchain: "eth" }, out: { blockchain: "polygon" } },
+      fee: { type: "bps", bps: 15, recipient: "fees.near" },
+    };
+    const mirror: FeeConfig["rules"][number] = {
+      id: "polygon-to-eth",
+      enabled: true,
+      match: { in: { blockchain: "polygon" }, out: { blockchain: "eth" } },
+      fee: { type: "bps", bps: 15, recipient: "fees.near" },
+    };
+
+    for (const difference of [
+      { priority: 200 },
+      { valid_from: "2025-06-01T00:00:00Z" },
+      { valid_until: "2025-06-30T23:59:59Z" },
+      { schedule: { active: [{ days: ["sat" as const, "sun" as const] }] } },
+    ]) {
+      const result = validateConfig({
+        version: "1.0.0",
+        default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+        rules: [bidirectional, { ...mirror, ...difference }],
+      });
+      expect(result.warnings.some((w) => w.message.includes("redundant"))).toBe(false);
+    }
+  });
+
+  it("does not warn when the mirrored rule has a different fee", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "eth-to-polygon",
+          enabled: true,
+          bidirectional: true,
+          match: { in: { blockchain: "eth" }, out: { blockchain: "polygon" } },
+          fee: { type: "bps", bps: 15, recipient: "fees.near" },
+        },
+        {
+          id: "polygon-to-eth",
+          enabled: true,
+          match: { in: { blockchain: "polygon" }, out: { blockchain: "eth" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("rejects non-boolean bidirectional", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bad",
+          enabled: true,
+          bidirectional: "yes",
+          match: { in: { blockchain: "eth" }, out: { blockchain: "polygon" } },
+          fee: { type: "bps", bps: 15, recipient: "fees.near" },
+        },
+      ],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].bidirectional")).toBe(true);
+  });
+
+  it("accepts named sets referenced from rules", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      sets: {
+        stablecoins: ["USDC", "USDT", "DAI"],
+        l2s: ["arb", "polygon", "base", "op"],
+        evm: ["eth", "@l2s"],
+      },
+      rules: [
+        {
+          id: "stables-off-evm",
+          enabled: true,
+          match: {
+            in: { symbol: "@stablecoins", blockchain: "@evm" },
+            out: { symbol: "@stablecoins", exclude: { blockchain: "@evm" } },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("rejects references to undefined sets", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      sets: { stablecoins: ["USDC", "@missing"] },
+      rules: [
+        {
+          id: "undefined-set",
+          enabled: true,
+          match: {
+            in: { symbol: "@stablecoins" },
+            out: { blockchain: "!@l2s" },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "rules[0].match.out.blockchain" && e.message.includes('Undefined set "@l2s"'))).toBe(true);
+    expect(result.errors.some((e) => e.path === "sets.stablecoins[1]" && e.message.includes('Undefined set "@missing"'))).toBe(true);
+  });
+
+  it("rejects circular set references", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      sets: { a: ["x", "@b"], b: ["@c"], c: ["@a"] },
+      rules: [
+        {
+          id: "circular",
+          enabled: true,
+          match: { in: { symbol: "@a" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.filter((e) => e.message.includes("Circular set reference: @a -> @b -> @c -> @a"))).toHaveLength(1);
+  });
+
+  it("rejects invalid set definitions", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      sets: { empty: [], negated: ["!USDC"], "bad name": ["x"] },
+      rules: [],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "sets.empty")).toBe(true);
+    expect(result.errors.some((e) => e.path === "sets.negated[0]" && e.message.includes("must not be negated"))).toBe(true);
+    expect(result.errors.some((e) => e.path === "sets.bad name" && e.message.includes("Invalid set name"))).toBe(true);
+  });
+
+  it("warns about unused sets", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      sets: { stablecoins: ["USDC", "USDT"], l2s: ["arb", "base"], unused: ["x"] },
+      rules: [
+        {
+          id: "uses-stables",
+          enabled: true,
+          match: { in: { symbol: "@stablecoins" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.path).sort()).toEqual(["sets.l2s", "sets.unused"]);
+  });
+
+  it("accepts rules with recurring schedules", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "weekend-promo",
+          enabled: true,
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+          schedule: {
+            timezone: "America/New_York",
+            active: [{ days: ["sat", "sun"] }, { cron: "*/30 18-20 * * 1-5" }],
+            blackout: [{ start: "23:00", end: "01:00" }],
+          },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it("rejects invalid schedules", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bad-schedule",
+          enabled: true,
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+          schedule: {
+            timezone: "Mars/Olympus_Mons",
+            active: [
+              { days: ["saturday"] },
+              { start: "9:00", end: "25:00" },
+              { start: "10:00", end: "10:00" },
+              { cron: "* * * *" },
+              { cron: "0 12 * * *", days: ["mon"] },
+            ],
+            blackout: [],
+          },
+        },
+        {
+          id: "empty-schedule",
+          enabled: true,
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+          schedule: {},
+        },
+      ],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    const paths = result.errors.map((e) => e.path);
+    expect(paths).toContain("rules[0].schedule.timezone");
+    expect(paths).toContain("rules[0].schedule.active[0].days");
+    expect(paths).toContain("rules[0].schedule.active[1].start");
+    expect(paths).toContain("rules[0].schedule.active[1].end");
+    expect(result.errors.some((e) => e.path === "rules[0].schedule.active[2]" && e.message.includes("must differ"))).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].schedule.active[3].cron" && e.message.includes("expected 5 fields"))).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].schedule.active[4]" && e.message.includes("cannot be combined"))).toBe(true);
+    expect(paths).toContain("rules[0].schedule.blackout");
+    expect(result.errors.some((e) => e.path === "rules[1].schedule" && e.message.includes("active or blackout"))).toBe(true);
+  });
+
+  it("accepts context matchers on known and configured keys", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      context_keys: ["region"],
+      rules: [
+        {
+          id: "partner",
+          enabled: true,
+          match: { context: { partnerId: "acme", region: ["EU", "UK"] } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it("rejects unknown context keys and invalid context values", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      context_keys: ["region", ""],
+      rules: [
+        {
+          id: "bad-context",
+          enabled: true,
+          match: {
+            in: { symbol: "*" },
+            out: { symbol: "*" },
+            context: { tier: "gold", partnerId: [], appId: "/[/" },
+          },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+        {
+          id: "empty-context",
+          enabled: true,
+          match: { context: {} },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "context_keys[1]")).toBe(true);
+    expect(
+      result.errors.some((e) => e.path === "rules[0].match.context.tier" && e.message.includes('Unknown context key "tier"'))
+    ).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.context.partnerId")).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[0].match.context.appId" && e.message.includes("Invalid pattern"))).toBe(true);
+    expect(result.errors.some((e) => e.path === "rules[1].match.context" && e.message.includes("at least one key"))).toBe(true);
+  });
+
+  it("warns about always-true context arrays", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "not-acme-or-globex",
+          enabled: true,
+          match: { context: { partnerId: ["!acme", "!globex"] } },
+          fee: { type: "bps", bps: 10, recipient: "fees.near" },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.path)).toEqual(["rules[0].match.context.partnerId"]);
+  });
+
+  it("rejects unknown resolution strategies", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      strategy: "cheapest",
+      rules: [],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual({
+      path: "strategy",
+      message: "strategy must be one of first-match, most-specific, lowest-fee, highest-fee",
+    });
+  });
+
+  it("accepts add and multiply rules", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "sol-surcharge",
+          enabled: true,
+          mode: "add",
+          match: { in: { symbol: "*" }, out: { blockchain: "sol" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "partner-rebate",
+          enabled: true,
+          mode: "add",
+          match: { context: { partnerId: "acme" } },
+          fee: { type: "bps", bps: -5, recipient: "fees.near" },
+        },
+        {
+          id: "partner-discount",
+          enabled: true,
+          mode: "multiply",
+          multiplier: 0.75,
+          match: { context: { partnerId: "acme" } },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it("rejects invalid modifier rules", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rules: [
+        {
+          id: "bad-mode",
+          enabled: true,
+          mode: "replace",
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "multiply-with-fee",
+          enabled: true,
+          mode: "multiply",
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: 5, recipient: "fees.near" },
+        },
+        {
+          id: "override-with-multiplier",
+          enabled: true,
+          multiplier: 2,
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: -5, recipient: "fees.near" },
+        },
+        {
+          id: "add-without-fee",
+          enabled: true,
+          mode: "add",
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+        },
+        {
+          id: "add-out-of-range",
+          enabled: true,
+          mode: "add",
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "bps", bps: -10001, recipient: "fees.near" },
+        },
+      ],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    const errors = result.errors.map((e) => `${e.path}: ${e.message}`);
+    expect(errors).toContain("rules[0].mode: mode must be one of override, add, multiply");
+    expect(errors).toContain(
+      "rules[1].multiplier: multiplier is required for multiply rules and must be a non-negative number"
+    );
+    expect(errors).toContain("rules[1].fee: fee is not used by multiply rules; use multiplier");
+    expect(errors).toContain("rules[2].multiplier: multiplier is only used by multiply rules");
+    expect(errors).toContain("rules[2].fee.bps: fee.bps must be a non-negative number");
+    expect(errors).toContain("rules[3].fee: fee is required");
+    expect(errors).toContain("rules[4].fee.bps: fee.bps must be between -10000 and 10000");
+  });
+
+  it("accepts fee caps", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near", min_amount: "100", max_amount: "100000", max_usd: 50 },
+      rules: [],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects invalid fee caps", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: [
+        { type: "bps", bps: 20, recipient: "fees.near", min_amount: "100", max_amount: "10" },
+        { type: "bps", bps: 20, recipient: "partner.near", min_amount: 100, max_usd: -1 },
+        { type: "bps", bps: 20, recipient: "other.near", min_usd: 5, max_usd: 1 },
+      ],
+      rules: [],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    const errors = result.errors.map((e) => `${e.path}: ${e.message}`);
+    expect(errors).toContain("default_fee[0].min_amount: fee.min_amount must be less than or equal to fee.max_amount");
+    expect(errors).toContain("default_fee[1].min_amount: fee.min_amount must be a non-negative integer string (base units)");
+    expect(errors).toContain("default_fee[1].max_usd: fee.max_usd must be a non-negative finite number");
+    expect(errors).toContain("default_fee[2].min_usd: fee.min_usd must be less than or equal to fee.max_usd");
+  });
+
+  it("accepts fixed and tiered fees", () => {
+    const config: FeeConfig = {
+      version: "1.0.0",
+      default_fee: [
+        { type: "fixed", amount: "500000", asset: "nep141:usdc", recipient: "fees.near" },
+        {
+          type: "tiered",
+          method: "marginal",
+          tiers: [{ up_to: "1000000", bps: 30 }, { up_to: "5000000", bps: 20 }, { bps: 10 }],
+          recipient: "partner.near",
+          max_amount: "1000000",
+        },
+      ],
+      rules: [],
+    };
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it("rejects invalid fixed and tiered fees", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: [
+        { type: "flat", bps: 10, recipient: "fees.near" },
+        { type: "fixed", amount: "1.5", recipient: "fees.near", max_amount: "10" },
+        {
+          type: "tiered",
+          method: "progressive",
+          tiers: [{ up_to: "500", bps: 30 }, { up_to: "100", bps: 20 }, { bps: 20000 }],
+          recipient: "fees.near",
+        },
+        { type: "tiered", method: "flat", tiers: [{ bps: 10 }, { up_to: "100", bps: 5 }], recipient: "fees.near" },
+        { type: "tiered", method: "flat", tiers: [], recipient: "fees.near" },
+      ],
+      rules: [
+        {
+          id: "add-tiered",
+          enabled: true,
+          mode: "add",
+          match: { in: { symbol: "*" }, out: { symbol: "*" } },
+          fee: { type: "tiered", method: "flat", tiers: [{ bps: 5 }], recipient: "fees.near" },
+        },
+      ],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    const errors = result.errors.map((e) => `${e.path}: ${e.message}`);
+    expect(errors).toContain("default_fee[0].type: fee.type must be one of bps, fixed, tiered");
+    expect(errors).toContain("default_fee[1].amount: fee.amount must be a non-negative integer string (base units)");
+    expect(errors).toContain("default_fee[1].asset: fee.asset is required and must be a string");
+    expect(errors).toContain("default_fee[1].max_amount: fee.max_amount is not supported on fixed fees");
+    expect(errors).toContain("default_fee[2].method: fee.method must be 'flat' or 'marginal'");
+    expect(errors).toContain("default_fee[2].tiers[1].up_to: up_to must be greater than the previous tier's up_to");
+    expect(errors).toContain("default_fee[2].tiers[2].bps: tier bps exceeds maximum of 10000 (100%)");
+    expect(errors).toContain("default_fee[3].tiers[0].up_to: up_to is required on every tier except the last");
+    expect(errors).toContain("default_fee[3].tiers[1].up_to: the last tier must not define up_to");
+    expect(errors).toContain("default_fee[4].tiers: fee.tiers must be a non-empty array");
+    expect(errors).toContain("rules[0].fee.type: fee.type must be 'bps' in add rules");
+  });
+
+  it("rejects unknown rounding modes", () => {
+    const config = {
+      version: "1.0.0",
+      default_fee: { type: "bps", bps: 20, recipient: "fees.near" },
+      rounding: "round",
+      rules: [],
+    } as unknown as FeeConfig;
+
+    const result = validateConfig(config);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual({
+      path: "rounding",
+      message: "rounding must be one of floor, ceil, half-up, half-even",
+    });
+  });
 });
@@ -1,4 +1,21 @@
-import type { FeeConfig, Fee, Rule, TokenMatcher } from "./types";
+import type {
+  FeeConfig,
+  Fee,
+  FeeCaps,
+  TieredFee,
+  Rule,
+  ContextMatcher,
+  RuleMatch,
+  RoutePredicates,
+  RuleSchedule,
+  ScheduleWindow,
+  TokenExclusion,
+  TokenMatcher,
+} from "./types";
+import { ROUNDING_MODES } from "./fees";
+import { RESOLUTION_STRATEGIES } from "./matcher";
+import { compilePattern } from "./patterns";
+import { isValidTimeZone, parseCron } from "./schedule";
 
 export interface ValidationError {
   path: string;
@@ -8,6 +25,7 @@ export interface ValidationError {
 const NEAR_ACCOUNT_REGEX = /^(?:[a-z\d]+[-_])*[a-z\d]+(?:\.[a-z\d]+[-_]*[a-z\d]+)*$/;
 const NEAR_IMPLICIT_ACCOUNT_REGEX = /^[a-f0-9]{64}$/;
 const MAX_BPS = 10000; // 100% fee cap
+const AMOUNT_REGEX = /^\d+$/;
 
 function isValidNearAccount(account: string): boolean {
   if (account.length < 2 || account.length > 64) return false;
@@ -19,27 +37,135 @@ function isValidDateString(dateStr: string): boolean {
   return !Number.isNaN(timestamp);
 }
 
-function validateSingleFee(fee: Fee, path: string): ValidationError[] {
+const FEE_TYPES = ["bps", "fixed", "tiered"];
+
+function validateBpsValue(bps: unknown, path: string, field: string, signed: boolean): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (signed) {
+    if (typeof bps !== "number" || !Number.isFinite(bps)) {
+      errors.push({ path, message: `${field} must be a number` });
+    } else if (Math.abs(bps) > MAX_BPS) {
+      errors.push({ path, message: `${field} must be between -${MAX_BPS} and ${MAX_BPS}` });
+    }
+  } else if (typeof bps !== "number" || bps < 0) {
+    errors.push({ path, message: `${field} must be a non-negative number` });
+  } else if (bps > MAX_BPS) {
+    errors.push({ path, message: `${field} exceeds maximum of ${MAX_BPS} (100%)` });
+  }
+
+  return errors;
+}
+
+function validateTiers(fee: TieredFee, path: string): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  if (fee.type !== "bps") {
-    errors.push({ path: `${path}.type`, message: "fee.type must be 'bps'" });
+  if (fee.method !== "flat" && fee.method !== "marginal") {
+    errors.push({ path: `${path}.method`, message: "fee.method must be 'flat' or 'marginal'" });
   }
-  if (typeof fee.bps !== "number" || fee.bps < 0) {
-    errors.push({ path: `${path}.bps`, message: "fee.bps must be a non-negative number" });
-  } else if (fee.bps > MAX_BPS) {
-    errors.push({ path: `${path}.bps`, message: `fee.bps exceeds maximum of ${MAX_BPS} (100%)` });
+  if (!Array.isArray(fee.tiers) || fee.tiers.length === 0) {
+    errors.push({ path: `${path}.tiers`, message: "fee.tiers must be a non-empty array" });
+    return errors;
+  }
+
+  let previous: bigint | undefined;
+  fee.tiers.forEach((tier, i) => {
+    const tierPath = `${path}.tiers[${i}]`;
+    const isLast = i === fee.tiers.length - 1;
+    errors.push(...validateBpsValue(tier?.bps, `${tierPath}.bps`, "tier bps", false));
+
+    if (tier?.up_to === undefined) {
+      if (!isLast) {
+        errors.push({ path: `${tierPath}.up_to`, message: "up_to is required on every tier except the last" });
+      }
+      return;
+    }
+    if (isLast) {
+      errors.push({ path: `${tierPath}.up_to`, message: "the last tier must not define up_to" });
+      return;
+    }
+    if (typeof tier.up_to !== "string" || !AMOUNT_REGEX.test(tier.up_to)) {
+      errors.push({ path: `${tierPath}.up_to`, message: "up_to must be a non-negative integer string (base units)" });
+      return;
+    }
+    const upTo = BigInt(tier.up_to);
+    if (previous !== undefined && upTo <= previous) {
+      errors.push({ path: `${tierPath}.up_to`, message: "up_to must be greater than the previous tier's up_to" });
+    }
+    previous = upTo;
+  });
+
+  return errors;
+}
+
+function validateSingleFee(fee: Fee, path: string, signed: boolean): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!FEE_TYPES.includes(fee.type)) {
+    errors.push({ path: `${path}.type`, message: `fee.type must be one of ${FEE_TYPES.join(", ")}` });
+  } else if (signed && fee.type !== "bps") {
+    errors.push({ path: `${path}.type`, message: "fee.type must be 'bps' in add rules" });
+  } else if (fee.type === "bps") {
+    errors.push(...validateBpsValue(fee.bps, `${path}.bps`, "fee.bps", signed));
+  } else if (fee.type === "tiered") {
+    errors.push(...validateTiers(fee, path));
+  } else {
+    if (typeof fee.amount !== "string" || !AMOUNT_REGEX.test(fee.amount)) {
+      errors.push({ path: `${path}.amount`, message: "fee.amount must be a non-negative integer string (base units)" });
+    }
+    if (!fee.asset || typeof fee.asset !== "string") {
+      errors.push({ path: `${path}.asset`, message: "fee.asset is required and must be a string" });
+    }
+    for (const field of ["min_amount", "max_amount", "min_usd", "max_usd"]) {
+      if (field in fee) {
+        errors.push({ path: `${path}.${field}`, message: `fee.${field} is not supported on fixed fees` });
+      }
+    }
   }
   if (!fee.recipient || typeof fee.recipient !== "string") {
     errors.push({ path: `${path}.recipient`, message: "fee.recipient is required and must be a string" });
   } else if (!isValidNearAccount(fee.recipient)) {
     errors.push({ path: `${path}.recipient`, message: "fee.recipient must be a valid NEAR account" });
   }
+  if (fee.type !== "fixed") {
+    errors.push(...validateFeeCaps(fee, path));
+  }
 
   return errors;
 }
 
-function validateFee(fee: Fee | Fee[], path: string): ValidationError[] {
+function validateFeeCaps(fee: FeeCaps, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const field of ["min_amount", "max_amount"] as const) {
+    const value = fee[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !AMOUNT_REGEX.test(value)) {
+      errors.push({ path: `${path}.${field}`, message: `fee.${field} must be a non-negative integer string (base units)` });
+    }
+  }
+  for (const field of ["min_usd", "max_usd"] as const) {
+    const value = fee[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      errors.push({ path: `${path}.${field}`, message: `fee.${field} must be a non-negative finite number` });
+    }
+  }
+
+  if (errors.length === 0) {
+    if (fee.min_amount !== undefined && fee.max_amount !== undefined && BigInt(fee.min_amount) > BigInt(fee.max_amount)) {
+      errors.push({ path: `${path}.min_amount`, message: "fee.min_amount must be less than or equal to fee.max_amount" });
+    }
+    if (fee.min_usd !== undefined && fee.max_usd !== undefined && fee.min_usd > fee.max_usd) {
+      errors.push({ path: `${path}.min_usd`, message: "fee.min_usd must be less than or equal to fee.max_usd" });
+    }
+  }
+
+  return errors;
+}
+
+/** `signed` allows negative `bps`, as used by `add` rules. */
+function validateFee(fee: Fee | Fee[], path: string, signed = false): ValidationError[] {
   const errors: ValidationError[] = [];
 
   if (Array.isArray(fee)) {
@@ -48,10 +174,10 @@ function validateFee(fee: Fee | Fee[], path: string): ValidationError[] {
       return errors;
     }
     for (let i = 0; i < fee.length; i++) {
-      errors.push(...validateSingleFee(fee[i]!, `${path}[${i}]`));
+      errors.push(...validateSingleFee(fee[i]!, `${path}[${i}]`, signed));
     }
   } else if (fee && typeof fee === "object") {
-    errors.push(...validateSingleFee(fee, path));
+    errors.push(...validateSingleFee(fee, path, signed));
   } else {
     errors.push({ path, message: "fee is required" });
   }
@@ -62,6 +188,8 @@ function validateFee(fee: Fee | Fee[], path: string): ValidationError[] {
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
+  /** Suspicious but valid configuration, such as patterns that match every value. */
+  warnings: ValidationError[];
 }
 
 function isNonEmptyStringOrArray(value: unknown): boolean {
@@ -70,7 +198,196 @@ function isNonEmptyStringOrArray(value: unknown): boolean {
   return false;
 }
 
-function validateTokenMatcher(matcher: TokenMatcher, path: string): ValidationError[] {
+function validateAmountBounds(matcher: TokenMatcher, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const field of ["min", "max"] as const) {
+    const value = matcher[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !AMOUNT_REGEX.test(value)) {
+      errors.push({ path: `${path}.${field}`, message: `${field} must be a non-negative integer string (base units)` });
+    }
+  }
+
+  if (errors.length === 0 && matcher.min !== undefined && matcher.max !== undefined) {
+    if (BigInt(matcher.min) > BigInt(matcher.max)) {
+      errors.push({ path: `${path}.min`, message: "min must be less than or equal to max" });
+    }
+  }
+
+  return errors;
+}
+
+function validateUsdBounds(matcher: TokenMatcher, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const field of ["minUsd", "maxUsd"] as const) {
+    const value = matcher[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      errors.push({ path: `${path}.${field}`, message: `${field} must be a non-negative finite number` });
+    }
+  }
+
+  if (errors.length === 0 && matcher.minUsd !== undefined && matcher.maxUsd !== undefined) {
+    if (matcher.minUsd > matcher.maxUsd) {
+      errors.push({ path: `${path}.minUsd`, message: "minUsd must be less than or equal to maxUsd" });
+    }
+  }
+
+  return errors;
+}
+
+const SET_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/** Set names defined in `FeeConfig.sets`, and the names referenced so far. */
+interface SetContext {
+  defined: Set<string>;
+  used: Set<string>;
+}
+
+function validatePatterns(value: string | string[] | undefined, path: string, sets: SetContext): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const patterns = typeof value === "string" ? [value] : Array.isArray(value) ? value : [];
+
+  for (const pattern of patterns) {
+    if (typeof pattern !== "string") continue;
+    const positive = pattern.startsWith("!") ? pattern.slice(1) : pattern;
+    if (positive.startsWith("@")) {
+      const name = positive.slice(1);
+      sets.used.add(name);
+      if (!sets.defined.has(name)) {
+        errors.push({ path, message: `Undefined set "@${name}"` });
+      }
+      continue;
+    }
+    try {
+      compilePattern(pattern);
+    } catch (error) {
+      errors.push({ path, message: (error as Error).message });
+    }
+  }
+
+  return errors;
+}
+
+function validateSets(sets: FeeConfig["sets"]): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof sets !== "object" || sets === null || Array.isArray(sets)) {
+    errors.push({ path: "sets", message: "sets must be an object mapping names to arrays of values" });
+    return errors;
+  }
+
+  for (const [name, members] of Object.entries(sets)) {
+    const path = `sets.${name}`;
+    if (!SET_NAME_REGEX.test(name)) {
+      errors.push({ path, message: `Invalid set name "${name}": use letters, digits, "_" or "-"` });
+    }
+    if (!Array.isArray(members) || members.length === 0) {
+      errors.push({ path, message: "set must be a non-empty array of strings" });
+      continue;
+    }
+    members.forEach((member, i) => {
+      const memberPath = `${path}[${i}]`;
+      if (typeof member !== "string" || member === "") {
+        errors.push({ path: memberPath, message: "set members must be non-empty strings" });
+      } else if (member.startsWith("!")) {
+        errors.push({ path: memberPath, message: "set members must not be negated; negate the reference instead (\"!@name\")" });
+      } else if (member.startsWith("@")) {
+        if (!Object.hasOwn(sets, member.slice(1))) {
+          errors.push({ path: memberPath, message: `Undefined set "${member}"` });
+        }
+      } else {
+        try {
+          compilePattern(member);
+        } catch (error) {
+          errors.push({ path: memberPath, message: (error as Error).message });
+        }
+      }
+    });
+  }
+
+  errors.push(...setCycleErrors(sets));
+
+  return errors;
+}
+
+function setCycleErrors(sets: Record<string, string[]>): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const done = new Set<string>();
+
+  const visit = (name: string, stack: string[]) => {
+    if (done.has(name)) return;
+    const index = stack.indexOf(name);
+    if (index !== -1) {
+      const cycle = [...stack.slice(index), name].map((n) => `@${n}`).join(" -> ");
+      errors.push({ path: `sets.${name}`, message: `Circular set reference: ${cycle}` });
+      return;
+    }
+    const members = sets[name];
+    if (Array.isArray(members)) {
+      for (const member of members) {
+        if (typeof member === "string" && member.startsWith("@") && Object.hasOwn(sets, member.slice(1))) {
+          visit(member.slice(1), [...stack, name]);
+        }
+      }
+    }
+    done.add(name);
+  };
+
+  for (const name of Object.keys(sets)) {
+    visit(name, []);
+  }
+  return errors;
+}
+
+/** Sets never referenced by a rule, directly or through another referenced set. */
+function unusedSetWarnings(sets: Record<string, string[]>, used: Set<string>): ValidationError[] {
+  const reachable = new Set<string>();
+  const queue = [...used];
+  while (queue.length > 0) {
+    const name = queue.pop()!;
+    if (reachable.has(name)) continue;
+    reachable.add(name);
+    const members = sets[name];
+    if (!Array.isArray(members)) continue;
+    for (const member of members) {
+      if (typeof member === "string" && member.startsWith("@")) queue.push(member.slice(1));
+    }
+  }
+
+  return Object.keys(sets)
+    .filter((name) => !reachable.has(name))
+    .map((name) => ({ path: `sets.${name}`, message: `Set "@${name}" is never referenced` }));
+}
+
+function validateExclusion(exclusion: TokenExclusion, path: string, sets: SetContext): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof exclusion !== "object" || exclusion === null || Array.isArray(exclusion)) {
+    errors.push({ path, message: "exclude must be an object" });
+    return errors;
+  }
+
+  for (const field of ["blockchain", "symbol", "assetId"] as const) {
+    const value = exclusion[field];
+    if (value === undefined) continue;
+    if (!isNonEmptyStringOrArray(value)) {
+      errors.push({ path: `${path}.${field}`, message: `exclude.${field} must be a non-empty string or array of non-empty strings` });
+      continue;
+    }
+    errors.push(...validatePatterns(value, `${path}.${field}`, sets));
+  }
+
+  if (exclusion.blockchain === undefined && exclusion.symbol === undefined && exclusion.assetId === undefined) {
+    errors.push({ path, message: "exclude must define at least one of blockchain, symbol, or assetId" });
+  }
+
+  return errors;
+}
+
+function validateTokenMatcher(matcher: TokenMatcher, path: string, sets: SetContext): ValidationError[] {
   const errors: ValidationError[] = [];
 
   // Check for empty arrays
@@ -97,18 +414,337 @@ function validateTokenMatcher(matcher: TokenMatcher, path: string): ValidationEr
 
   const hasIdentifier = isNonEmptyStringOrArray(matcher.blockchain) ||
                         isNonEmptyStringOrArray(matcher.symbol) ||
-                        isNonEmptyStringOrArray(matcher.assetId);
+                        isNonEmptyStringOrArray(matcher.assetId) ||
+                        matcher.exclude !== undefined;
   if (!hasIdentifier) {
     errors.push({
       path,
-      message: "At least one of blockchain, symbol, or assetId must be defined",
+      message: "At least one of blockchain, symbol, assetId, or exclude must be defined",
     });
   }
 
+  if (matcher.exclude !== undefined) {
+    errors.push(...validateExclusion(matcher.exclude, `${path}.exclude`, sets));
+  }
+
+  errors.push(...validatePatterns(matcher.blockchain, `${path}.blockchain`, sets));
+  errors.push(...validatePatterns(matcher.symbol, `${path}.symbol`, sets));
+  errors.push(...validatePatterns(matcher.assetId, `${path}.assetId`, sets));
+  errors.push(...validateAmountBounds(matcher, path));
+  errors.push(...validateUsdBounds(matcher, path));
+
+  return errors;
+}
+
+/**
+ * Array entries are OR-combined, so an array with two different negations
+ * (`["!eth", "!base"]`) or a negation next to its own value (`["!eth", "eth"]`)
+ * matches every value.
+ */
+function isAlwaysTrueArray(patterns: string[]): boolean {
+  const negated = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+  if (new Set(negated).size >= 2) return true;
+  return negated.some((value) => patterns.includes(value));
+}
+
+function tokenMatcherWarnings(matcher: TokenMatcher, path: string): ValidationError[] {
+  const warnings: ValidationError[] = [];
+
+  for (const field of ["blockchain", "symbol", "assetId"] as const) {
+    const value = matcher[field];
+    if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) continue;
+    if (isAlwaysTrueArray(value)) {
+      warnings.push({
+        path: `${path}.${field}`,
+        message: `${field} ${JSON.stringify(value)} matches every value because array entries are OR-combined; use exclude.${field} to exclude several values`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+function matchWarnings(match: RuleMatch, path: string): ValidationError[] {
+  const warnings: ValidationError[] = [];
+  if (typeof match !== "object" || match === null) return warnings;
+
+  if (match.in) {
+    warnings.push(...tokenMatcherWarnings(match.in, `${path}.in`));
+  }
+  if (match.out) {
+    warnings.push(...tokenMatcherWarnings(match.out, `${path}.out`));
+  }
+  if (match.context && typeof match.context === "object") {
+    for (const [key, value] of Object.entries(match.context)) {
+      if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) continue;
+      if (isAlwaysTrueArray(value)) {
+        warnings.push({
+          path: `${path}.context.${key}`,
+          message: `context.${key} ${JSON.stringify(value)} matches every value because array entries are OR-combined`,
+        });
+      }
+    }
+  }
+  for (const key of ["all", "any"] as const) {
+    const children = match[key];
+    if (!Array.isArray(children)) continue;
+    children.forEach((child, i) => warnings.push(...matchWarnings(child, `${path}.${key}[${i}]`)));
+  }
+  if (match.not) {
+    warnings.push(...matchWarnings(match.not, `${path}.not`));
+  }
+
+  return warnings;
+}
+
+function ruleWarnings(rule: Rule, index: number): ValidationError[] {
+  const warnings: ValidationError[] = [];
+  const path = `rules[${index}]`;
+
+  if (rule.match) {
+    warnings.push(...matchWarnings(rule.match, `${path}.match`));
+  }
+
+  return warnings;
+}
+
+const ROUTE_PREDICATES = ["sameBlockchain", "sameSymbol", "sameAsset", "crossChain"];
+
+function validateRoute(route: RoutePredicates, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof route !== "object" || route === null || Array.isArray(route)) {
+    errors.push({ path, message: "route must be an object" });
+    return errors;
+  }
+
+  const keys = Object.keys(route);
+  if (keys.length === 0) {
+    errors.push({ path, message: `route must define at least one of ${ROUTE_PREDICATES.join(", ")}` });
+  }
+  for (const key of keys) {
+    if (!ROUTE_PREDICATES.includes(key)) {
+      errors.push({ path: `${path}.${key}`, message: `Unknown route predicate "${key}"` });
+    } else if (typeof route[key as keyof RoutePredicates] !== "boolean") {
+      errors.push({ path: `${path}.${key}`, message: `route.${key} must be a boolean` });
+    }
+  }
+
+  if (
+    typeof route.sameBlockchain === "boolean" &&
+    typeof route.crossChain === "boolean" &&
+    route.sameBlockchain === route.crossChain
+  ) {
+    errors.push({ path, message: "route.sameBlockchain and route.crossChain contradict each other" });
+  }
+
+  return errors;
+}
+
+const KNOWN_CONTEXT_KEYS = ["partnerId", "appId", "userAccount", "referralCode", "swapType"];
+
+function validateContextKeys(contextKeys: string[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!Array.isArray(contextKeys)) {
+    errors.push({ path: "context_keys", message: "context_keys must be an array of strings" });
+    return errors;
+  }
+  contextKeys.forEach((key, i) => {
+    if (typeof key !== "string" || key.length === 0) {
+      errors.push({ path: `context_keys[${i}]`, message: "context key must be a non-empty string" });
+    }
+  });
+
   return errors;
 }
 
-function validateRule(rule: Rule, index: number): ValidationError[] {
+function validateContextMatcher(
+  matcher: ContextMatcher,
+  path: string,
+  contextKeys: Set<string>,
+  sets: SetContext
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof matcher !== "object" || matcher === null || Array.isArray(matcher)) {
+    errors.push({ path, message: "context must be an object" });
+    return errors;
+  }
+
+  const keys = Object.keys(matcher);
+  if (keys.length === 0) {
+    errors.push({ path, message: "context must define at least one key" });
+  }
+  for (const key of keys) {
+    if (!contextKeys.has(key)) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `Unknown context key "${key}": expected one of ${[...contextKeys].join(", ")} or a key listed in context_keys`,
+      });
+      continue;
+    }
+    const value = matcher[key];
+    if (!isNonEmptyStringOrArray(value)) {
+      errors.push({ path: `${path}.${key}`, message: `context.${key} must be a non-empty string or array of non-empty strings` });
+      continue;
+    }
+    errors.push(...validatePatterns(value, `${path}.${key}`, sets));
+  }
+
+  return errors;
+}
+
+function hasConditionKeys(match: RuleMatch): boolean {
+  return (
+    match.all !== undefined ||
+    match.any !== undefined ||
+    match.not !== undefined ||
+    match.route !== undefined ||
+    match.context !== undefined
+  );
+}
+
+function validateMatch(
+  match: RuleMatch,
+  path: string,
+  isRoot: boolean,
+  sets: SetContext,
+  contextKeys: Set<string>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof match !== "object" || match === null || Array.isArray(match)) {
+    errors.push({ path, message: "match condition must be an object" });
+    return errors;
+  }
+
+  if (isRoot && !hasConditionKeys(match)) {
+    if (!match.in) {
+      errors.push({ path: `${path}.in`, message: "match.in is required" });
+    }
+    if (!match.out) {
+      errors.push({ path: `${path}.out`, message: "match.out is required" });
+    }
+  } else if (!match.in && !match.out && !hasConditionKeys(match)) {
+    errors.push({ path, message: "match condition must define at least one of in, out, route, context, all, any, or not" });
+  }
+
+  if (match.in) {
+    errors.push(...validateTokenMatcher(match.in, `${path}.in`, sets));
+  }
+  if (match.out) {
+    errors.push(...validateTokenMatcher(match.out, `${path}.out`, sets));
+  }
+
+  if (match.route !== undefined) {
+    errors.push(...validateRoute(match.route, `${path}.route`));
+  }
+
+  if (match.context !== undefined) {
+    errors.push(...validateContextMatcher(match.context, `${path}.context`, contextKeys, sets));
+  }
+
+  for (const key of ["all", "any"] as const) {
+    const children = match[key];
+    if (children === undefined) continue;
+    if (!Array.isArray(children) || children.length === 0) {
+      errors.push({ path: `${path}.${key}`, message: `${key} must be a non-empty array of match conditions` });
+      continue;
+    }
+    children.forEach((child, i) => errors.push(...validateMatch(child, `${path}.${key}[${i}]`, false, sets, contextKeys)));
+  }
+
+  if (match.not !== undefined) {
+    errors.push(...validateMatch(match.not, `${path}.not`, false, sets, contextKeys));
+  }
+
+  return errors;
+}
+
+const WEEKDAY_NAMES = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function validateScheduleWindow(window: ScheduleWindow, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof window !== "object" || window === null || Array.isArray(window)) {
+    errors.push({ path, message: "schedule window must be an object" });
+    return errors;
+  }
+
+  if (window.cron !== undefined) {
+    if (window.days !== undefined || window.start !== undefined || window.end !== undefined) {
+      errors.push({ path, message: "cron cannot be combined with days, start or end" });
+    }
+    if (typeof window.cron !== "string") {
+      errors.push({ path: `${path}.cron`, message: "cron must be a string" });
+    } else {
+      try {
+        parseCron(window.cron);
+      } catch (error) {
+        errors.push({ path: `${path}.cron`, message: (error as Error).message });
+      }
+    }
+    return errors;
+  }
+
+  if (window.days !== undefined) {
+    if (!Array.isArray(window.days) || window.days.length === 0) {
+      errors.push({ path: `${path}.days`, message: "days must be a non-empty array" });
+    } else if (!window.days.every((day) => WEEKDAY_NAMES.includes(day))) {
+      errors.push({ path: `${path}.days`, message: `days must only contain ${WEEKDAY_NAMES.join(", ")}` });
+    }
+  }
+  if (window.start !== undefined && (typeof window.start !== "string" || !TIME_OF_DAY_REGEX.test(window.start))) {
+    errors.push({ path: `${path}.start`, message: 'start must be a time of day as "HH:MM"' });
+  }
+  if (
+    window.end !== undefined &&
+    (typeof window.end !== "string" || (window.end !== "24:00" && !TIME_OF_DAY_REGEX.test(window.end)))
+  ) {
+    errors.push({ path: `${path}.end`, message: 'end must be a time of day as "HH:MM" or "24:00"' });
+  }
+  if ((window.start ?? "00:00") === (window.end ?? "24:00")) {
+    errors.push({ path, message: "start and end must differ" });
+  }
+
+  return errors;
+}
+
+function validateSchedule(schedule: RuleSchedule, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof schedule !== "object" || schedule === null || Array.isArray(schedule)) {
+    errors.push({ path, message: "schedule must be an object" });
+    return errors;
+  }
+
+  if (schedule.timezone !== undefined) {
+    if (typeof schedule.timezone !== "string" || !isValidTimeZone(schedule.timezone)) {
+      errors.push({ path: `${path}.timezone`, message: `timezone "${schedule.timezone}" is not a valid IANA time zone` });
+    }
+  }
+
+  if (schedule.active === undefined && schedule.blackout === undefined) {
+    errors.push({ path, message: "schedule must define active or blackout windows" });
+  }
+  for (const key of ["active", "blackout"] as const) {
+    const windows = schedule[key];
+    if (windows === undefined) continue;
+    if (!Array.isArray(windows) || windows.length === 0) {
+      errors.push({ path: `${path}.${key}`, message: `${key} must be a non-empty array of windows` });
+      continue;
+    }
+    windows.forEach((window, i) => errors.push(...validateScheduleWindow(window, `${path}.${key}[${i}]`)));
+  }
+
+  return errors;
+}
+
+const RULE_MODES = ["override", "add", "multiply"];
+
+function validateRule(rule: Rule, index: number, sets: SetContext, contextKeys: Set<string>): ValidationError[] {
   const errors: ValidationError[] = [];
   const path = `rules[${index}]`;
 
@@ -127,23 +763,32 @@ function validateRule(rule: Rule, index: number): ValidationError[] {
   if (!rule.match) {
     errors.push({ path: `${path}.match`, message: "match is required" });
   } else {
-    if (!rule.match.in) {
-      errors.push({ path: `${path}.match.in`, message: "match.in is required" });
-    } else {
-      errors.push(...validateTokenMatcher(rule.match.in, `${path}.match.in`));
-    }
+    errors.push(...validateMatch(rule.match, `${path}.match`, true, sets, contextKeys));
+  }
 
-    if (!rule.match.out) {
-      errors.push({ path: `${path}.match.out`, message: "match.out is required" });
+  const mode = rule.mode ?? "override";
+  if (!RULE_MODES.includes(mode)) {
+    errors.push({ path: `${path}.mode`, message: `mode must be one of ${RULE_MODES.join(", ")}` });
+  } else if (mode === "multiply") {
+    if (typeof rule.multiplier !== "number" || !Number.isFinite(rule.multiplier) || rule.multiplier < 0) {
+      errors.push({ path: `${path}.multiplier`, message: "multiplier is required for multiply rules and must be a non-negative number" });
+    }
+    if (rule.fee !== undefined) {
+      errors.push({ path: `${path}.fee`, message: "fee is not used by multiply rules; use multiplier" });
+    }
+  } else {
+    if (!rule.fee) {
+      errors.push({ path: `${path}.fee`, message: "fee is required" });
     } else {
-      errors.push(...validateTokenMatcher(rule.match.out, `${path}.match.out`));
+      errors.push(...validateFee(rule.fee, `${path}.fee`, mode === "add"));
+    }
+    if (rule.multiplier !== undefined) {
+      errors.push({ path: `${path}.multiplier`, message: "multiplier is only used by multiply rules" });
     }
   }
 
-  if (!rule.fee) {
-    errors.push({ path: `${path}.fee`, message: "fee is required" });
-  } else {
-    errors.push(...validateFee(rule.fee, `${path}.fee`));
+  if (rule.bidirectional !== undefined && typeof rule.bidirectional !== "boolean") {
+    errors.push({ path: `${path}.bidirectional`, message: "bidirectional must be a boolean" });
   }
 
   if (rule.valid_from !== undefined) {
@@ -162,11 +807,83 @@ function validateRule(rule: Rule, index: number): ValidationError[] {
     }
   }
 
+  if (rule.schedule !== undefined) {
+    errors.push(...validateSchedule(rule.schedule, `${path}.schedule`));
+  }
+
   return errors;
 }
 
+/** Serializes a value with sorted object keys, so structurally equal values compare equal. */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Returns the condition with `in` and `out` swapped at every level. */
+function mirrorMatch(match: RuleMatch): RuleMatch {
+  const mirrored: RuleMatch = { ...match, in: match.out, out: match.in };
+  if (match.all) mirrored.all = match.all.map(mirrorMatch);
+  if (match.any) mirrored.any = match.any.map(mirrorMatch);
+  if (match.not) mirrored.not = mirrorMatch(match.not);
+  return mirrored;
+}
+
+/** What a rule does and when it applies, apart from its `match`. */
+function ruleBehaviour(rule: Rule): string {
+  return canonicalize([
+    rule.mode ?? "override",
+    rule.fee,
+    rule.multiplier,
+    rule.priority ?? 100,
+    rule.valid_from,
+    rule.valid_until,
+    rule.schedule,
+  ]);
+}
+
+/**
+ * Flags enabled rules that mirror an enabled bidirectional rule with the same behaviour
+ * (fee, mode, priority, validity and schedule). The bidirectional rule already covers
+ * the swapped orientation, so the mirror is redundant.
+ */
+function bidirectionalWarnings(rules: Rule[]): ValidationError[] {
+  const warnings: ValidationError[] = [];
+
+  for (let i = 0; i < rules.length; i++) {
+    const a = rules[i]!;
+    if (!a.enabled || !a.match || typeof a.match !== "object") continue;
+    const mirrored = canonicalize(mirrorMatch(a.match));
+    const behaviour = ruleBehaviour(a);
+
+    for (let j = i + 1; j < rules.length; j++) {
+      const b = rules[j]!;
+      if (!b.enabled || !b.match || typeof b.match !== "object") continue;
+      if (!a.bidirectional && !b.bidirectional) continue;
+      if (canonicalize(b.match) !== mirrored || ruleBehaviour(b) !== behaviour) continue;
+
+      const bidirectionalId = a.bidirectional ? a.id : b.id;
+      warnings.push({
+        path: `rules[${j}]`,
+        message: `Rule "${b.id}" mirrors rule "${a.id}" with the same fee and is redundant because "${bidirectionalId}" is bidirectional`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
 export function validateConfig(config: FeeConfig): ValidationResult {
   const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
 
   if (!config.version || typeof config.version !== "string") {
     errors.push({ path: "version", message: "version is required and must be a string" });
@@ -178,13 +895,44 @@ export function validateConfig(config: FeeConfig): ValidationResult {
     errors.push(...validateFee(config.default_fee, "default_fee"));
   }
 
+  const sets: SetContext = { defined: new Set(), used: new Set() };
+  if (config.sets !== undefined) {
+    errors.push(...validateSets(config.sets));
+    if (typeof config.sets === "object" && config.sets !== null && !Array.isArray(config.sets)) {
+      sets.defined = new Set(Object.keys(config.sets));
+    }
+  }
+
+  if (config.strategy !== undefined && !RESOLUTION_STRATEGIES.includes(config.strategy)) {
+    errors.push({
+      path: "strategy",
+      message: `strategy must be one of ${RESOLUTION_STRATEGIES.join(", ")}`,
+    });
+  }
+
+  if (config.rounding !== undefined && !ROUNDING_MODES.includes(config.rounding)) {
+    errors.push({
+      path: "rounding",
+      message: `rounding must be one of ${ROUNDING_MODES.join(", ")}`,
+    });
+  }
+
+  const contextKeys = new Set(KNOWN_CONTEXT_KEYS);
+  if (config.context_keys !== undefined) {
+    errors.push(...validateContextKeys(config.context_keys));
+    if (Array.isArray(config.context_keys)) {
+      config.context_keys.forEach((key) => contextKeys.add(key));
+    }
+  }
+
   if (!Array.isArray(config.rules)) {
     errors.push({ path: "rules", message: "rules must be an array" });
   } else {
     const ruleIds = new Set<string>();
     for (let i = 0; i < config.rules.length; i++) {
       const rule = config.rules[i]!;
-      errors.push(...validateRule(rule, i));
+      errors.push(...validateRule(rule, i, sets, contextKeys));
+      warnings.push(...ruleWarnings(rule, i));
 
       if (rule.id) {
         if (ruleIds.has(rule.id)) {
@@ -193,10 +941,16 @@ export function validateConfig(config: FeeConfig): ValidationResult {
         ruleIds.add(rule.id);
       }
     }
+    warnings.push(...bidirectionalWarnings(config.rules));
+  }
+
+  if (config.sets && typeof config.sets === "object" && !Array.isArray(config.sets)) {
+    warnings.push(...unusedSetWarnings(config.sets, sets.used));
   }
 
   return {
     valid: errors.length === 0,
     errors,
+    warnings,
   };
 }